@@ -1,20 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import { Project, VideoType, AnimationStyle, Scene, Character, INITIAL_CHARACTERS_JSON, ProjectIdea } from './types';
-import { generateStoryScenes, generateProjectIdea } from './services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { Project, VideoType, Scene, Character, INITIAL_CHARACTERS_JSON, ProjectIdea, AISettings, Beat, StylePreset, Series } from './types';
+import { generateStoryScenes, generateProjectIdea, generateScenePreview, summarizeEpisode } from './services/geminiService';
+import { loadAISettings, saveAISettings } from './services/providers';
+import { loadProjects, loadProjectImages, saveProject, replaceProject, deleteProject, getStorageUsage, formatBytes, StorageUsage, loadStylePresets, saveStylePreset, deleteStylePreset, loadCastLibrary, saveLibraryCharacter, deleteLibraryCharacter, loadSeries, saveSeries, deleteSeries } from './services/storageService';
+import { readProjectBundle, resolveIdCollisions, exportProjectBundle, exportProjectArchive, BUNDLE_EXTENSION } from './services/bundleService';
+import { downloadBlob, toFileSlug } from './services/fileUtils';
+import { insertBlankScene, renumberScenes } from './services/sceneOperations';
+import { addSnapshot } from './services/snapshots';
+import { pruneCast, getSceneCharacters } from './services/characters';
+import { placeBeatScene } from './services/outline';
+import { getAspectRatio } from './services/framing';
+import { BUILT_IN_STYLES, DEFAULT_STYLE_ID, getStylePreset } from './services/stylePresets';
+import { DEFAULT_PROJECT_FILTERS, PROJECT_SORTS, ProjectFilters, ProjectSort, addTag, duplicateProject, filterProjects, getAllTags, getCopyName, hasActiveFilters, normalizeTag, removeTag, sortProjects } from './services/projectList';
+import { createSeries, getEpisodes, getSeriesContext, getStandaloneProjects, nextEpisodeNumber, removeFromSeries } from './services/series';
+import { applyLibraryEntry, copyFromLibrary, createLibraryEntry, getLinkedProjects, syncToLibrary } from './services/castLibrary';
+import { createPreviewQueue, PreviewJob, PreviewJobRequest, PreviewQueue, PreviewQueueState } from './services/previewQueue';
+import { ProjectHistory, createHistory, pushHistory, undo, redo, jumpTo, canUndo, canRedo } from './services/history';
 import { ProjectCard } from './components/ProjectCard';
 import { CharacterManager } from './components/CharacterManager';
 import { Storyboard } from './components/Storyboard';
-import { Plus, Video, LayoutGrid, ArrowLeft, Loader2, Save, BrainCircuit, Sparkles, CheckCircle2 } from 'lucide-react';
-
-// --- Local Storage Helper ---
-const STORAGE_KEY = 'aniscript_projects';
-const loadProjects = (): Project[] => {
-  const saved = localStorage.getItem(STORAGE_KEY);
-  return saved ? JSON.parse(saved) : [];
-};
-const saveProjectsToStorage = (projects: Project[]) => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
-};
+import { AISettingsPanel } from './components/AISettingsPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SnapshotsPanel } from './components/SnapshotsPanel';
+import { PreviewQueuePanel } from './components/PreviewQueuePanel';
+import { OutlineEditor } from './components/OutlineEditor';
+import { StyleLibraryPanel } from './components/StyleLibraryPanel';
+import { CastLibraryPanel } from './components/CastLibraryPanel';
+import { SeriesPanel } from './components/SeriesPanel';
+import { Plus, Video, LayoutGrid, ArrowLeft, Loader2, Save, BrainCircuit, Sparkles, CheckCircle2, Cpu, AlertTriangle, HardDrive, Upload, Undo2, Redo2, History, Bookmark, Palette, Users, Tv, Settings2, Search, Archive, ArchiveRestore, Download, Trash2 } from 'lucide-react';
 
 const App: React.FC = () => {
   const [projects, setProjects] = useState<Project[]>([]);
@@ -24,84 +37,480 @@ const App: React.FC = () => {
   // New Project Form State
   const [newProjectName, setNewProjectName] = useState('');
   const [newProjectType, setNewProjectType] = useState<VideoType>(VideoType.SHORT);
-  const [newProjectStyle, setNewProjectStyle] = useState<AnimationStyle>(AnimationStyle.DISNEY_PIXAR);
+  const [newProjectStyleId, setNewProjectStyleId] = useState(DEFAULT_STYLE_ID);
   const [storyIdea, setStoryIdea] = useState('');
   const [customCharacters, setCustomCharacters] = useState<Character[] | null>(null);
+  const [newProjectCastIds, setNewProjectCastIds] = useState<string[]>([]); // Cast library picks
+  const [newProjectSeriesId, setNewProjectSeriesId] = useState(''); // Empty for a standalone project
   
   // Generation State
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [generatingProjectId, setGeneratingProjectId] = useState<string | null>(null);
+  const sceneStreamRef = useRef<AbortController | null>(null);
   const [isBrainstorming, setIsBrainstorming] = useState(false);
   const [brainstormTopic, setBrainstormTopic] = useState('');
   const [recommendedIdea, setRecommendedIdea] = useState<ProjectIdea | null>(null);
 
+  // AI Provider State
+  const [aiSettings, setAiSettings] = useState<AISettings>(loadAISettings);
+  const [settingsPanel, setSettingsPanel] = useState<'global' | 'project' | null>(null);
+
+  // Style Library State: built-in presets plus the user's own from storage
+  const [customStyles, setCustomStyles] = useState<StylePreset[]>([]);
+  const [showStyleLibrary, setShowStyleLibrary] = useState(false);
+  const styles = [...BUILT_IN_STYLES, ...customStyles];
+
+  // Cast Library State
+  const [castLibrary, setCastLibrary] = useState<Character[]>([]);
+  const [showCastLibrary, setShowCastLibrary] = useState(false);
+
+  // Series State
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const [editingSeries, setEditingSeries] = useState<Series | null>(null);
+  const [summarizingIds, setSummarizingIds] = useState<string[]>([]); // Episodes whose summary is being written
+
+  // Persistence State
+  const [pendingSaves, setPendingSaves] = useState(0);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Dashboard State
+  const [projectFilters, setProjectFilters] = useState<ProjectFilters>(DEFAULT_PROJECT_FILTERS);
+  const [projectSort, setProjectSort] = useState<ProjectSort>('created-desc');
+  const [selectedProjectIds, setSelectedProjectIds] = useState<string[]>([]);
+  const [isBulkExporting, setIsBulkExporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Undo/Redo State (per project, kept for the session)
+  const [histories, setHistories] = useState<Record<string, ProjectHistory>>({});
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+
+  // Preview Queue State: the queue outlives the workspace so batches survive navigation.
+  // projectsRef gives its jobs the latest projects rather than the ones from when they started.
+  const projectsRef = useRef(projects);
+  projectsRef.current = projects;
+  const runPreviewJobRef = useRef<(job: PreviewJob, signal: AbortSignal) => Promise<void>>();
+  const previewQueueRef = useRef<PreviewQueue>();
+  const [previewQueue, setPreviewQueue] = useState<PreviewQueueState | null>(null);
+  if (!previewQueueRef.current) {
+    previewQueueRef.current = createPreviewQueue((job, signal) => runPreviewJobRef.current!(job, signal), setPreviewQueue);
+  }
+  const queue = previewQueueRef.current;
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  };
+
   useEffect(() => {
-    setProjects(loadProjects());
+    loadProjects()
+      .then(setProjects)
+      .catch((e) => {
+        console.error("Error loading projects:", e);
+        alert("Failed to load projects from browser storage.");
+      })
+      .finally(refreshStorageUsage);
+    loadStylePresets()
+      .then(setCustomStyles)
+      .catch((e) => {
+        console.error("Error loading styles:", e);
+        alert("Failed to load your styles from browser storage.");
+      });
+    loadCastLibrary()
+      .then(setCastLibrary)
+      .catch((e) => {
+        console.error("Error loading cast library:", e);
+        alert("Failed to load the cast library from browser storage.");
+      });
+    loadSeries()
+      .then(setSeriesList)
+      .catch((e) => {
+        console.error("Error loading series:", e);
+        alert("Failed to load your series from browser storage.");
+      });
   }, []);
 
+  // Failures show in the save status; the result is for callers that have to undo something when it failed
+  const persistProject = async (project: Project) => {
+    setPendingSaves(n => n + 1);
+    try {
+      await saveProject(project);
+      setSaveError(null);
+      return true;
+    } catch (e) {
+      console.error("Error saving project:", e);
+      setSaveError(e instanceof Error ? e.message : "Unknown storage error");
+      return false;
+    } finally {
+      setPendingSaves(n => n - 1);
+      refreshStorageUsage();
+    }
+  };
+
+  // Storage cleans up orphaned images of any project whose images were loaded, so once they are
+  // loaded they have to stay in state; otherwise the next save would drop them
+  const ensureImagesLoaded = async (project: Project) => {
+    if (histories[project.id]) return project;
+    const loaded = await loadProjectImages(project);
+    projectsRef.current = projectsRef.current.map(p => p.id === loaded.id ? loaded : p);
+    setProjects(prev => prev.map(p => p.id === loaded.id ? loaded : p));
+    return loaded;
+  };
+
+  const openProject = async (project: Project) => {
+    let opened = project;
+    try {
+      opened = await loadProjectImages(project);
+    } catch (e) {
+      console.error("Error loading preview images:", e);
+      alert("Failed to load preview images for this project.");
+    }
+    setProjects(prev => prev.map(p => p.id === opened.id ? opened : p));
+    setHistories(prev => prev[opened.id] ? prev : { ...prev, [opened.id]: createHistory(opened) });
+    setCurrentProject(opened);
+    setView('workspace');
+  };
+
   const handleCreateProject = () => {
-    // Use custom characters from AI recommendation if available, otherwise default
-    const initialChars = customCharacters || JSON.parse(INITIAL_CHARACTERS_JSON).characters;
+    // Use custom characters from AI recommendation if available, otherwise default;
+    // picks from the cast library are added as linked copies, replacing the default cast and any suggested namesakes
+    const picked = castLibrary.filter(c => newProjectCastIds.includes(c.id));
+    const baseChars: Character[] = (customCharacters || (picked.length > 0 ? [] : JSON.parse(INITIAL_CHARACTERS_JSON).characters))
+      .filter((c: Character) => !picked.some(entry => entry.name.trim().toLowerCase() === c.name.trim().toLowerCase()));
+    const initialChars = picked.reduce((cast, entry) => [...cast, copyFromLibrary(entry, cast)], baseChars);
+    const newSeries = seriesList.find(s => s.id === newProjectSeriesId);
     
     const newProject: Project = {
       id: crypto.randomUUID(),
       name: newProjectName || 'Untitled Project',
       type: newProjectType,
-      style: newProjectStyle,
+      styleId: newProjectStyleId,
       createdAt: Date.now(),
+      updatedAt: Date.now(),
       characters: initialChars,
       scenes: [],
-      storyIdea: storyIdea
+      storyIdea: storyIdea,
+      ...(newSeries ? { seriesId: newSeries.id, episodeNumber: nextEpisodeNumber(projects, newSeries.id) } : {})
     };
-    const updated = [newProject, ...projects];
-    setProjects(updated);
-    saveProjectsToStorage(updated);
-    setCurrentProject(newProject);
-    setView('workspace');
+    setProjects([newProject, ...projects]);
+    persistProject(newProject);
+    openProject(newProject);
     
     // Reset form
     setNewProjectName('');
     setStoryIdea('');
     setCustomCharacters(null);
+    setNewProjectCastIds([]);
+    setNewProjectSeriesId('');
     setRecommendedIdea(null);
     setBrainstormTopic('');
   };
 
-  const updateProject = (updated: Project) => {
-    const newProjects = projects.map(p => p.id === updated.id ? updated : p);
-    setProjects(newProjects);
-    saveProjectsToStorage(newProjects);
-    setCurrentProject(updated);
+  // Every project mutation goes through here; the label names the action in the history panel
+  // Shows the change without recording or saving it, for results still streaming in
+  const showProject = (project: Project) => {
+    projectsRef.current = projectsRef.current.map(p => p.id === project.id ? project : p);
+    setProjects(prev => prev.map(p => p.id === project.id ? project : p));
+    // Queued previews can finish for a project other than the one on screen
+    setCurrentProject(prev => prev && prev.id !== project.id ? prev : project);
   };
 
-  const handleDeleteProject = (id: string) => {
-    if(!confirm("Are you sure you want to delete this project?")) return;
-    const newProjects = projects.filter(p => p.id !== id);
-    setProjects(newProjects);
-    saveProjectsToStorage(newProjects);
-    if(currentProject?.id === id) {
+  const updateProject = (changed: Project, label: string) => {
+    const updated = { ...changed, updatedAt: Date.now() };
+    showProject(updated);
+    setHistories(prev => prev[updated.id] ? { ...prev, [updated.id]: pushHistory(prev[updated.id], updated, label) } : prev);
+    persistProject(updated);
+  };
+
+  runPreviewJobRef.current = async (job, signal) => {
+    const project = projectsRef.current.find(p => p.id === job.projectId);
+    const scene = project?.scenes.find(s => s.id === job.sceneId);
+    // The project or scene was deleted while the job waited; there is nothing to fill in
+    if (!project || !scene) return;
+
+    const image = await generateScenePreview(
+      scene.visualPrompt,
+      getAspectRatio(project),
+      getStylePreset(styles, project.styleId),
+      project.aiSettings,
+      getSceneCharacters(scene, project.characters)
+    );
+    if (signal.aborted) return;
+
+    // Re-read: the project may have been edited while the image was generating
+    const latest = projectsRef.current.find(p => p.id === job.projectId);
+    if (!latest?.scenes.some(s => s.id === job.sceneId)) return;
+    updateProject(
+      { ...latest, scenes: latest.scenes.map(s => s.id === job.sceneId ? { ...s, generatedImageUrl: image } : s) },
+      'Generated previews'
+    );
+  };
+
+  const handleQueuePreviews = (requests: PreviewJobRequest[]) => queue.enqueue(requests);
+
+  // For results that arrive after an await: the project may have been edited in the meantime,
+  // so the change is applied to its latest version rather than the one the request started from
+  const updateLatestProject = (projectId: string, change: (latest: Project) => Project, label: string) => {
+    const latest = projectsRef.current.find(p => p.id === projectId);
+    if (latest) updateProject(change(latest), label);
+  };
+
+  // Reference sheets finish asynchronously, so they go into the latest project like previews do
+  const setCharacterReference = (projectId: string, characterId: string, referenceImageUrl: string | undefined, label: string) => {
+    const latest = projectsRef.current.find(p => p.id === projectId);
+    if (!latest?.characters.some(c => c.id === characterId)) return;
+    updateProject(
+      { ...latest, characters: latest.characters.map(c => c.id === characterId ? { ...c, referenceImageUrl } : c) },
+      label
+    );
+  };
+
+  const applyHistory = (history: ProjectHistory) => {
+    // Undo and redo are changes too, as far as "recently updated" goes
+    const restored = { ...history.entries[history.index].project, updatedAt: Date.now() };
+    setHistories(prev => ({ ...prev, [restored.id]: history }));
+    // Through projectsRef too, so results arriving right after build on the restored version
+    showProject(restored);
+    persistProject(restored);
+  };
+
+  const currentHistory = currentProject ? histories[currentProject.id] : undefined;
+
+  const handleUndo = () => {
+    if (currentHistory && canUndo(currentHistory)) applyHistory(undo(currentHistory));
+  };
+
+  const handleRedo = () => {
+    if (currentHistory && canRedo(currentHistory)) applyHistory(redo(currentHistory));
+  };
+
+  useEffect(() => {
+    if (view !== 'workspace') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields their own native undo
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Deletes permanently; the dashboard archives by default
+  const removeProjects = async (ids: string[]) => {
+    const deleted: string[] = [];
+    try {
+      for (const id of ids) {
+        await deleteProject(id);
+        deleted.push(id);
+      }
+    } catch (e) {
+      console.error("Error deleting project:", e);
+      alert(`Failed to delete ${ids.length - deleted.length === 1 ? 'a project' : `${ids.length - deleted.length} projects`} from browser storage.`);
+    }
+    deleted.forEach(id => {
+      queue.cancelAll(id);
+      if (generatingProjectId === id) sceneStreamRef.current?.abort();
+    });
+    setProjects(prev => prev.filter(p => !deleted.includes(p.id)));
+    setHistories(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !deleted.includes(id))));
+    setSelectedProjectIds(prev => prev.filter(id => !deleted.includes(id)));
+    refreshStorageUsage();
+    if(currentProject && deleted.includes(currentProject.id)) {
       setCurrentProject(null);
       setView('dashboard');
     }
   };
 
-  const handleGenerateScript = async () => {
-    if (!currentProject || !currentProject.storyIdea) return;
-    setIsGenerating(true);
+  const handleDeleteProject = (id: string) => {
+    if(!confirm("Are you sure you want to permanently delete this project?")) return;
+    removeProjects([id]);
+  };
+
+  const handleArchiveProjects = (toArchive: Project[], archived: boolean) => {
+    toArchive
+      .filter(p => !!p.archived !== archived)
+      .forEach(p => updateProject({ ...p, archived: archived || undefined }, archived ? 'Archived project' : 'Restored project'));
+  };
+
+  const handleAddTag = (project: Project, tag: string) => {
+    const tagged = addTag(project, tag);
+    if (tagged !== project) updateProject(tagged, `Added tag "${normalizeTag(tag)}"`);
+  };
+
+  // The copy is made from the project with its images, so previews and reference sheets come along
+  const handleDuplicateProject = async (project: Project) => {
     try {
-      const scenes = await generateStoryScenes(
-        currentProject.storyIdea,
-        currentProject.characters,
-        currentProject.style,
-        currentProject.type
-      );
-      updateProject({
-        ...currentProject,
-        scenes: scenes
-      });
+      const loaded = await ensureImagesLoaded(project);
+      const copy = duplicateProject(loaded, getCopyName(project.name, projectsRef.current));
+      setProjects(prev => [copy, ...prev]);
+      if (!await persistProject(copy)) {
+        // Not in storage, so it shouldn't look like it is
+        setProjects(prev => prev.filter(p => p.id !== copy.id));
+        alert(`Failed to duplicate "${project.name}".`);
+      }
+    } catch (e) {
+      console.error("Error duplicating project:", e);
+      alert(`Failed to duplicate "${project.name}".`);
+    }
+  };
+
+  // One bundle downloads as is; several are zipped together
+  const handleExportProjects = async (toExport: Project[]) => {
+    if (toExport.length === 0) return;
+    setIsBulkExporting(true);
+    try {
+      const items = [];
+      for (const project of toExport) {
+        items.push({
+          project: await ensureImagesLoaded(project),
+          style: getStylePreset(styles, project.styleId),
+        });
+      }
+      if (items.length === 1) {
+        downloadBlob(await exportProjectBundle(items[0].project, items[0].style), `${toFileSlug(items[0].project.name)}${BUNDLE_EXTENSION}`);
+      } else {
+        downloadBlob(await exportProjectArchive(items), 'aniscript_projects.zip');
+      }
+    } catch (e) {
+      console.error("Error exporting projects:", e);
+      alert("Failed to export the selected projects.");
+    } finally {
+      setIsBulkExporting(false);
+    }
+  };
+
+  const toggleProjectSelected = (id: string) => {
+    setSelectedProjectIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  const handleImportBundle = async (file: File) => {
+    setIsImporting(true);
+    try {
+      let { project: imported, style } = await readProjectBundle(file);
+      // Bring the project's custom style along, unless the library already has it
+      if (style && !styles.some(s => s.id === style!.id)) handleSaveStyle(style);
+      const clash = projects.find(p => p.id === imported.id);
+      if (clash && confirm(`"${clash.name}" already exists. Replace it with the imported version?\n\nCancel imports it as a separate copy.`)) {
+        const others = projects.filter(p => p.id !== clash.id);
+        imported = resolveIdCollisions(imported, others);
+        // Written before anything of the original is dropped, so a failed save keeps it
+        await replaceProject(imported);
+        queue.cancelAll(clash.id);
+        if (generatingProjectId === clash.id) sceneStreamRef.current?.abort();
+        // Undo would otherwise bring back the replaced version
+        setHistories(({ [clash.id]: _replaced, ...rest }) => rest);
+        if (currentProject?.id === clash.id) setCurrentProject(null);
+        setProjects([imported, ...others]);
+      } else {
+        imported = resolveIdCollisions(imported, projects);
+        await saveProject(imported);
+        setProjects([imported, ...projects]);
+      }
+      refreshStorageUsage();
+    } catch (e) {
+      console.error("Error importing project:", e);
+      alert(e instanceof Error ? e.message : "Failed to import project.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Generates the whole storyboard, beat by beat when the project has an outline,
+  // or only the scenes of `onlyBeat`, replacing that beat's current scenes.
+  const handleGenerateScript = async (onlyBeat?: Beat) => {
+    if (!currentProject || !currentProject.storyIdea || generatingProjectId) return;
+    const projectId = currentProject.id;
+    const beats = currentProject.beats || [];
+    const label = onlyBeat
+      ? `Regenerated beat "${onlyBeat.title}"`
+      : currentProject.scenes.length > 0 ? 'Regenerated scenes' : 'Generated scenes';
+    const controller = new AbortController();
+    sceneStreamRef.current = controller;
+    setGeneratingProjectId(projectId);
+
+    // Scenes are added to the latest project as they stream in, so the storyboard fills live.
+    // What they replace is only removed once the first new scene has arrived.
+    let received = 0;
+    let previousId: string | null = null;
+    const appendScene = (scene: Scene) => {
+      const latest = projectsRef.current.find(p => p.id === projectId);
+      if (!latest) {
+        controller.abort(); // Project was deleted mid-stream
+        return;
+      }
+      const isFirst = received++ === 0;
+      let scenes: Scene[];
+      let base = latest;
+      if (onlyBeat) {
+        scenes = placeBeatScene(latest.scenes, latest.beats || [], onlyBeat.id, scene, previousId);
+      } else {
+        // Keep the storyboard being replaced as a named version
+        if (isFirst && latest.scenes.length > 0) {
+          base = addSnapshot(latest, `Before regeneration (${new Date().toLocaleString()})`);
+        }
+        scenes = renumberScenes(isFirst ? [scene] : [...latest.scenes, scene]);
+      }
+      previousId = scene.id;
+      // Recorded and saved once the stream ends, as a single undo step
+      showProject({ ...base, scenes });
+    };
+
+    const runs = onlyBeat ? [onlyBeat] : beats.length > 0 ? beats : [undefined];
+    const episodeOf = seriesList.find(s => s.id === currentProject.seriesId);
+    const series = episodeOf && getSeriesContext(episodeOf, projectsRef.current, currentProject.episodeNumber);
+    let completed = false;
+    try {
+      for (const beat of runs) {
+        const { interrupted } = await generateStoryScenes(
+          currentProject.storyIdea,
+          currentProject.characters,
+          getStylePreset(styles, currentProject.styleId),
+          currentProject.type,
+          currentProject.aiSettings,
+          { onScene: appendScene, signal: controller.signal, outline: beat && { beats, beat }, series }
+        );
+        if (controller.signal.aborted) break;
+        if (interrupted) {
+          alert(`Scene generation was cut off. The ${received} scenes received so far were kept.`);
+          break;
+        }
+      }
+      completed = !controller.signal.aborted && received > 0;
+    } catch (e) {
+      alert(received > 0
+        ? `Scene generation failed part-way. The ${received} scenes received so far were kept.`
+        : "Error generating script. Please check your API key and try again.");
+    } finally {
+      sceneStreamRef.current = null;
+      setGeneratingProjectId(null);
+      const streamed = projectsRef.current.find(p => p.id === projectId);
+      if (streamed && received > 0) updateProject(streamed, label);
+    }
+    // Keep the "story so far" in step with the episode's scenes
+    const generated = projectsRef.current.find(p => p.id === projectId);
+    if (completed && episodeOf && generated) handleSummarizeEpisode(generated, true);
+  };
+
+  // quiet: failures are only logged, for summaries written automatically after generation
+  const handleSummarizeEpisode = async (project: Project, quiet = false) => {
+    setSummarizingIds(prev => [...prev, project.id]);
+    try {
+      const summary = await summarizeEpisode(project, project.aiSettings);
+      const latest = projectsRef.current.find(p => p.id === project.id);
+      if (latest && summary) updateProject({ ...latest, summary }, 'Updated episode summary');
     } catch (e) {
-      alert("Error generating script. Please check your API key and try again.");
+      if (!quiet) alert(`Failed to summarize "${project.name}". Please try again.`);
     } finally {
-      setIsGenerating(false);
+      setSummarizingIds(prev => prev.filter(id => id !== project.id));
     }
   };
 
@@ -109,7 +518,8 @@ const App: React.FC = () => {
     setIsBrainstorming(true);
     setRecommendedIdea(null);
     try {
-      const idea = await generateProjectIdea(brainstormTopic);
+      const newSeries = seriesList.find(s => s.id === newProjectSeriesId);
+      const idea = await generateProjectIdea(brainstormTopic, styles, undefined, newSeries && getSeriesContext(newSeries, projects));
       setRecommendedIdea(idea);
     } catch (e) {
       alert("Failed to brainstorm ideas. Please try again.");
@@ -118,17 +528,185 @@ const App: React.FC = () => {
     }
   };
 
+  const handleUpdateAISettings = (settings: Partial<AISettings>) => {
+    const updated = { ...aiSettings, ...settings } as AISettings;
+    setAiSettings(updated);
+    saveAISettings(updated);
+  };
+
+  const handleSaveStyle = (style: StylePreset) => {
+    setCustomStyles(prev => [...prev.filter(s => s.id !== style.id), style].sort((a, b) => a.name.localeCompare(b.name)));
+    saveStylePreset(style).catch((e) => {
+      console.error("Error saving style:", e);
+      alert(`Failed to save the style "${style.name}".`);
+    });
+  };
+
+  // Projects using a deleted style fall back to the default one when they are read
+  const handleDeleteStyle = (style: StylePreset) => {
+    setCustomStyles(prev => prev.filter(s => s.id !== style.id));
+    if (newProjectStyleId === style.id) setNewProjectStyleId(DEFAULT_STYLE_ID);
+    deleteStylePreset(style.id).catch((e) => {
+      console.error("Error deleting style:", e);
+      alert(`Failed to delete the style "${style.name}".`);
+    });
+  };
+
+  // Pushes a library entry to the projects with a copy of it. Projects that were never opened get
+  // their images loaded first, so a replaced reference sheet doesn't linger in storage.
+  const propagateLibraryEntry = async (entry: Character, linked: Project[]) => {
+    for (const project of linked) {
+      try {
+        const latest = projectsRef.current.find(p => p.id === project.id);
+        if (!latest) continue;
+        const loaded = await ensureImagesLoaded(latest);
+        const updated = applyLibraryEntry(loaded, entry);
+        if (updated !== loaded) updateProject(updated, `Updated ${entry.name} from the cast library`);
+      } catch (e) {
+        console.error("Error updating project from the cast library:", e);
+        alert(`Failed to update "${project.name}" from the cast library.`);
+      }
+    }
+  };
+
+  // fromProjectId: the project the new version came from, which already has it
+  const handleSaveLibraryCharacter = (entry: Character, fromProjectId?: string) => {
+    const previous = castLibrary.find(c => c.id === entry.id);
+    setCastLibrary(prev => [...prev.filter(c => c.id !== entry.id), entry].sort((a, b) => a.name.localeCompare(b.name)));
+    saveLibraryCharacter(entry).catch((e) => {
+      console.error("Error saving library character:", e);
+      alert(`Failed to save "${entry.name}" to the cast library.`);
+    });
+
+    const linked = getLinkedProjects(projectsRef.current, entry.id).filter(p => p.id !== fromProjectId);
+    if (linked.length === 0) return;
+    const renamed = previous && previous.name !== entry.name ? ` Mentions of "${previous.name}" in their scenes are renamed too.` : '';
+    if (confirm(`${linked.length} project${linked.length === 1 ? ' has a copy' : 's have copies'} of "${entry.name}". Update ${linked.length === 1 ? 'it' : 'them'} as well?${renamed}
+
+Cancel leaves ${linked.length === 1 ? 'that copy' : 'those copies'} as ${linked.length === 1 ? 'it is' : 'they are'}; each project can update from the library later.`)) {
+      propagateLibraryEntry(entry, linked);
+    }
+  };
+
+  // Projects keep their copies; the link to the deleted entry is simply not found any more
+  const handleDeleteLibraryCharacter = (entry: Character) => {
+    setCastLibrary(prev => prev.filter(c => c.id !== entry.id));
+    setNewProjectCastIds(prev => prev.filter(id => id !== entry.id));
+    deleteLibraryCharacter(entry.id).catch((e) => {
+      console.error("Error deleting library character:", e);
+      alert(`Failed to delete "${entry.name}" from the cast library.`);
+    });
+  };
+
+  const handleAddToLibrary = (character: Character) => {
+    if (!currentProject) return;
+    if (castLibrary.some(c => c.name.trim().toLowerCase() === character.name.trim().toLowerCase())
+      && !confirm(`The cast library already has a character called "${character.name}". Add this one as well?`)) return;
+    const entry = createLibraryEntry(character);
+    handleSaveLibraryCharacter(entry);
+    updateProject(
+      { ...currentProject, characters: currentProject.characters.map(c => c.id === character.id ? { ...c, libraryId: entry.id } : c) },
+      `Added ${character.name} to the cast library`
+    );
+  };
+
+  const handleSaveToLibrary = (character: Character) => {
+    const entry = castLibrary.find(c => c.id === character.libraryId);
+    if (entry && currentProject) handleSaveLibraryCharacter(syncToLibrary(entry, character), currentProject.id);
+  };
+
+  const handleSaveSeries = (updated: Series) => {
+    const previous = seriesList.find(s => s.id === updated.id);
+    setSeriesList(prev => [...prev.filter(s => s.id !== updated.id), updated].sort((a, b) => a.name.localeCompare(b.name)));
+    setEditingSeries(updated);
+    saveSeries(updated).catch((e) => {
+      console.error("Error saving series:", e);
+      alert(`Failed to save the series "${updated.name}".`);
+    });
+
+    // Episodes share the series style; changing it offers to restyle the existing ones
+    const restyle = previous && previous.styleId !== updated.styleId
+      ? getEpisodes(projectsRef.current, updated.id).filter(p => p.styleId !== updated.styleId)
+      : [];
+    if (restyle.length > 0 && confirm(`Switch ${restyle.length === 1 ? 'the episode' : `all ${restyle.length} episodes`} of "${updated.name}" to the "${getStylePreset(styles, updated.styleId).name}" style as well?`)) {
+      restyle.forEach(p => updateProject({ ...p, styleId: updated.styleId }, 'Changed style'));
+    }
+  };
+
+  // Episodes are kept as standalone projects
+  const handleDeleteSeries = (deleted: Series) => {
+    setSeriesList(prev => prev.filter(s => s.id !== deleted.id));
+    setEditingSeries(null);
+    if (newProjectSeriesId === deleted.id) setNewProjectSeriesId('');
+    getEpisodes(projectsRef.current, deleted.id).forEach(p => updateProject(removeFromSeries(p), `Removed from ${deleted.name}`));
+    deleteSeries(deleted.id).catch((e) => {
+      console.error("Error deleting series:", e);
+      alert(`Failed to delete the series "${deleted.name}".`);
+    });
+  };
+
+  // Episodes start with the series style and recurring cast, which can still be changed in the form
+  const selectNewProjectSeries = (seriesId: string) => {
+    setNewProjectSeriesId(seriesId);
+    const selected = seriesList.find(s => s.id === seriesId);
+    if (!selected) return;
+    setNewProjectStyleId(selected.styleId);
+    setNewProjectCastIds(selected.castIds.filter(id => castLibrary.some(c => c.id === id)));
+  };
+
+  const startNewProject = (seriesId = '') => {
+    setView('create');
+    setCustomCharacters(null); // Reset characters on new project
+    setRecommendedIdea(null);
+    setNewProjectCastIds([]);
+    selectNewProjectSeries(seriesId);
+  };
+
   const applyRecommendedIdea = () => {
     if (!recommendedIdea) return;
     setNewProjectName(recommendedIdea.name);
     setNewProjectType(recommendedIdea.type);
-    setNewProjectStyle(recommendedIdea.style);
+    // Episodes keep the series style
+    if (!newProjectSeriesId) setNewProjectStyleId(recommendedIdea.styleId);
     setStoryIdea(recommendedIdea.storyIdea);
     setCustomCharacters(recommendedIdea.characters);
   };
 
   // --- Render Views ---
 
+  // Projects that can still be added to a series
+  const standaloneProjects = getStandaloneProjects(projects, seriesList).filter(p => !p.archived);
+
+  // Dashboard lists: series keep their episode order, standalone projects follow the chosen sort
+  const visibleProjects = filterProjects(projects, projectFilters);
+  const visibleStandalone = sortProjects(getStandaloneProjects(visibleProjects, seriesList), projectSort);
+  const isFiltering = hasActiveFilters(projectFilters) || projectFilters.archived;
+  const visibleSeries = seriesList.filter(s => !isFiltering || visibleProjects.some(p => p.seriesId === s.id));
+  const archivedCount = projects.filter(p => p.archived).length;
+  const selectedProjects = projects.filter(p => selectedProjectIds.includes(p.id));
+  const allTags = getAllTags(projects);
+
+  const renderProjectCard = (project: Project, episodeLabel?: string) => (
+    <ProjectCard
+      key={project.id}
+      project={project}
+      styleName={getStylePreset(styles, project.styleId).name}
+      episodeLabel={episodeLabel}
+      isSelected={selectedProjectIds.includes(project.id)}
+      isSelecting={selectedProjectIds.length > 0}
+      onSelect={openProject}
+      onToggleSelected={toggleProjectSelected}
+      onDuplicate={handleDuplicateProject}
+      onArchive={(p, archived) => handleArchiveProjects([p], archived)}
+      onDelete={handleDeleteProject}
+      onAddTag={handleAddTag}
+      onRemoveTag={(p, tag) => updateProject(removeTag(p, tag), `Removed tag "${tag}"`)}
+      onFilterByTag={(tag) => setProjectFilters(f => ({ ...f, tag }))}
+    />
+  );
+
+  const toolbarSelectClass = "bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-300 outline-none focus:ring-1 focus:ring-purple-500";
+
   const renderDashboard = () => (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
       <div className="flex justify-between items-center mb-8">
@@ -137,28 +715,214 @@ const App: React.FC = () => {
             AniScript Studio
           </h1>
           <p className="text-gray-400 mt-2">AI-Powered Storyboarding & Prompt Engineering</p>
+          {storageUsage && (
+            <p className="text-xs text-gray-600 mt-1 flex items-center gap-1">
+              <HardDrive size={12} /> {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} browser storage used
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={`${BUNDLE_EXTENSION},.zip`}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImportBundle(file);
+            }}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 hover:text-white px-4 py-3 rounded-full font-medium border border-gray-700 flex items-center gap-2 transition-colors"
+          >
+            {isImporting ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />} Import Project
+          </button>
+          <button
+            onClick={() => setEditingSeries(createSeries(''))}
+            className="bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-4 py-3 rounded-full font-medium border border-gray-700 flex items-center gap-2 transition-colors"
+          >
+            <Tv size={18} /> New Series
+          </button>
+          <button
+            onClick={() => setShowCastLibrary(true)}
+            className="bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-4 py-3 rounded-full font-medium border border-gray-700 flex items-center gap-2 transition-colors"
+          >
+            <Users size={18} /> Cast
+          </button>
+          <button
+            onClick={() => setShowStyleLibrary(true)}
+            className="bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-4 py-3 rounded-full font-medium border border-gray-700 flex items-center gap-2 transition-colors"
+          >
+            <Palette size={18} /> Styles
+          </button>
+          <button
+            onClick={() => setSettingsPanel('global')}
+            className="bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-4 py-3 rounded-full font-medium border border-gray-700 flex items-center gap-2 transition-colors"
+          >
+            <Cpu size={18} /> AI Settings
+          </button>
+          <button 
+            onClick={() => startNewProject()}
+            className="bg-purple-600 hover:bg-purple-500 text-white px-6 py-3 rounded-full font-bold shadow-lg shadow-purple-900/50 flex items-center gap-2 transition-transform hover:scale-105"
+          >
+            <Plus size={20} /> New Project
+          </button>
         </div>
-        <button 
+      </div>
+
+      {/* Search, filters and sort */}
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="relative flex-1 min-w-[16rem]">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="text"
+            value={projectFilters.query}
+            onChange={e => setProjectFilters({ ...projectFilters, query: e.target.value })}
+            placeholder="Search names and story ideas..."
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg pl-9 pr-3 py-2 text-sm text-white outline-none focus:ring-1 focus:ring-purple-500"
+          />
+        </div>
+        <select
+          value={projectFilters.type}
+          onChange={e => setProjectFilters({ ...projectFilters, type: e.target.value as VideoType | '' })}
+          className={toolbarSelectClass}
+        >
+          <option value="">All formats</option>
+          {Object.values(VideoType).map(v => <option key={v} value={v}>{v.split(' (')[0]}</option>)}
+        </select>
+        <select
+          value={projectFilters.styleId}
+          onChange={e => setProjectFilters({ ...projectFilters, styleId: e.target.value })}
+          className={toolbarSelectClass}
+        >
+          <option value="">All styles</option>
+          {styles.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        {allTags.length > 0 && (
+          <select
+            value={projectFilters.tag}
+            onChange={e => setProjectFilters({ ...projectFilters, tag: e.target.value })}
+            className={toolbarSelectClass}
+          >
+            <option value="">All tags</option>
+            {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+          </select>
+        )}
+        <select value={projectSort} onChange={e => setProjectSort(e.target.value as ProjectSort)} title="Sort projects" className={toolbarSelectClass}>
+          {PROJECT_SORTS.map(sort => <option key={sort.id} value={sort.id}>{sort.label}</option>)}
+        </select>
+        <button
           onClick={() => {
-            setView('create');
-            setCustomCharacters(null); // Reset characters on new project
-            setRecommendedIdea(null);
+            setProjectFilters({ ...projectFilters, archived: !projectFilters.archived });
+            setSelectedProjectIds([]);
           }}
-          className="bg-purple-600 hover:bg-purple-500 text-white px-6 py-3 rounded-full font-bold shadow-lg shadow-purple-900/50 flex items-center gap-2 transition-transform hover:scale-105"
+          className={`text-sm px-3 py-2 rounded-lg border flex items-center gap-1.5 transition-colors ${
+            projectFilters.archived ? 'bg-purple-600/20 border-purple-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-300 hover:text-white'
+          }`}
         >
-          <Plus size={20} /> New Project
+          <Archive size={14} /> Archived ({archivedCount})
         </button>
       </div>
 
+      {/* Bulk actions for the selected projects */}
+      {selectedProjects.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-6 bg-purple-900/20 border border-purple-500/30 rounded-xl px-4 py-2 text-sm">
+          <span className="text-white font-medium">{selectedProjects.length} selected</span>
+          <button onClick={() => setSelectedProjectIds(visibleProjects.map(p => p.id))} className="text-purple-300 hover:text-white">
+            Select all {visibleProjects.length}
+          </button>
+          <button onClick={() => setSelectedProjectIds([])} className="text-gray-400 hover:text-white">
+            Clear
+          </button>
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => handleExportProjects(selectedProjects)}
+              disabled={isBulkExporting}
+              className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-200 px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition-colors"
+            >
+              {isBulkExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Export
+            </button>
+            {projectFilters.archived ? (
+              <button
+                onClick={() => {
+                  handleArchiveProjects(selectedProjects, false);
+                  setSelectedProjectIds([]);
+                }}
+                className="bg-gray-800 hover:bg-gray-700 text-gray-200 px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition-colors"
+              >
+                <ArchiveRestore size={14} /> Restore
+              </button>
+            ) : (
+              <button
+                onClick={() => {
+                  handleArchiveProjects(selectedProjects, true);
+                  setSelectedProjectIds([]);
+                }}
+                className="bg-gray-800 hover:bg-gray-700 text-gray-200 px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition-colors"
+              >
+                <Archive size={14} /> Archive
+              </button>
+            )}
+            <button
+              onClick={() => {
+                if (!confirm(`Permanently delete ${selectedProjects.length === 1 ? `"${selectedProjects[0].name}"` : `${selectedProjects.length} projects`}? This can't be undone.`)) return;
+                removeProjects(selectedProjects.map(p => p.id));
+              }}
+              className="bg-gray-800 hover:bg-red-900/60 text-gray-200 hover:text-red-300 px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition-colors"
+            >
+              <Trash2 size={14} /> Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Series first, each with its episodes in order */}
+      {visibleSeries.map(series => {
+        const episodes = getEpisodes(visibleProjects, series.id);
+        return (
+          <section key={series.id} className="mb-10">
+            <div className="flex justify-between items-end mb-4">
+              <div>
+                <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+                  <Tv size={22} className="text-purple-400" /> {series.name}
+                </h2>
+                <p className="text-sm text-gray-500">
+                  {episodes.length} {isFiltering ? 'matching ' : ''}episode{episodes.length === 1 ? '' : 's'} • {getStylePreset(styles, series.styleId).name}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setEditingSeries(series)}
+                  className="text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-3 py-2 rounded-lg border border-gray-700 flex items-center gap-1.5 transition-colors"
+                >
+                  <Settings2 size={14} /> Series
+                </button>
+                <button
+                  onClick={() => startNewProject(series.id)}
+                  className="text-sm bg-purple-600 hover:bg-purple-500 text-white px-3 py-2 rounded-lg font-bold flex items-center gap-1.5 transition-colors"
+                >
+                  <Plus size={14} /> New Episode
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {episodes.map(p => renderProjectCard(p, `Ep ${p.episodeNumber}`))}
+              {episodes.length === 0 && (
+                <p className="col-span-full text-sm text-gray-600 py-6 text-center border border-dashed border-gray-800 rounded-xl">No episodes yet.</p>
+              )}
+            </div>
+          </section>
+        );
+      })}
+
+      {visibleSeries.length > 0 && visibleStandalone.length > 0 && (
+        <h2 className="text-2xl font-bold text-white mb-4">Projects</h2>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {projects.map(p => (
-          <ProjectCard 
-            key={p.id} 
-            project={p} 
-            onSelect={(proj) => { setCurrentProject(proj); setView('workspace'); }}
-            onDelete={handleDeleteProject}
-          />
-        ))}
+        {visibleStandalone.map(p => renderProjectCard(p))}
         {projects.length === 0 && (
           <div className="col-span-full text-center py-20 bg-gray-900/50 rounded-2xl border-2 border-dashed border-gray-800">
             <Video size={48} className="mx-auto text-gray-700 mb-4" />
@@ -166,6 +930,19 @@ const App: React.FC = () => {
             <p className="text-gray-600">Create your first animation storyboard.</p>
           </div>
         )}
+        {projects.length > 0 && isFiltering && visibleProjects.length === 0 && (
+          <div className="col-span-full text-center py-16 bg-gray-900/50 rounded-2xl border-2 border-dashed border-gray-800">
+            <Search size={40} className="mx-auto text-gray-700 mb-4" />
+            <h3 className="text-lg text-gray-500 font-semibold">
+              {projectFilters.archived && !hasActiveFilters(projectFilters) ? 'No archived projects' : 'No projects match'}
+            </h3>
+            {hasActiveFilters(projectFilters) && (
+              <button onClick={() => setProjectFilters({ ...DEFAULT_PROJECT_FILTERS, archived: projectFilters.archived })} className="text-purple-400 hover:text-purple-300 text-sm mt-2">
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -180,7 +957,26 @@ const App: React.FC = () => {
         {/* Decorative background blur */}
         <div className="absolute -top-20 -right-20 w-64 h-64 bg-purple-600/20 rounded-full blur-3xl pointer-events-none"></div>
 
-        <h2 className="text-3xl font-bold text-white mb-6">Create New Project</h2>
+        <h2 className="text-3xl font-bold text-white mb-6">
+          {newProjectSeriesId ? `New Episode ${nextEpisodeNumber(projects, newProjectSeriesId)}` : 'Create New Project'}
+        </h2>
+
+        {seriesList.length > 0 && (
+          <div className="mb-6">
+            <label className="block text-gray-400 text-sm font-bold mb-2">Series</label>
+            <select
+              value={newProjectSeriesId}
+              onChange={e => selectNewProjectSeries(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+            >
+              <option value="">Standalone project</option>
+              {seriesList.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+            {newProjectSeriesId && (
+              <p className="text-xs text-gray-500 mt-2">Ideas and scenes are written with the series bible and the story so far.</p>
+            )}
+          </div>
+        )}
 
         {/* AI Brainstorming Section */}
         <div className="mb-8 bg-gray-900/50 border border-purple-500/30 rounded-xl p-5">
@@ -216,7 +1012,7 @@ const App: React.FC = () => {
                   <h4 className="font-bold text-white text-lg">{recommendedIdea.name}</h4>
                   <div className="text-xs text-gray-500 mt-1 flex gap-2">
                     <span className="bg-gray-700 px-2 py-0.5 rounded">{recommendedIdea.type.split(' ')[0]}</span>
-                    <span className="bg-gray-700 px-2 py-0.5 rounded">{recommendedIdea.style}</span>
+                    <span className="bg-gray-700 px-2 py-0.5 rounded">{getStylePreset(styles, recommendedIdea.styleId).name}</span>
                     <span className="bg-gray-700 px-2 py-0.5 rounded">{recommendedIdea.characters.length} Chars</span>
                   </div>
                 </div>
@@ -259,13 +1055,18 @@ const App: React.FC = () => {
               </select>
             </div>
             <div>
-              <label className="block text-gray-400 text-sm font-bold mb-2">Art Style</label>
+              <label className="text-gray-400 text-sm font-bold mb-2 flex justify-between items-center">
+                Art Style
+                <button onClick={() => setShowStyleLibrary(true)} className="text-xs font-medium text-purple-400 hover:text-purple-300 flex items-center gap-1">
+                  <Palette size={12} /> Manage
+                </button>
+              </label>
               <select 
-                value={newProjectStyle}
-                onChange={e => setNewProjectStyle(e.target.value as AnimationStyle)}
+                value={getStylePreset(styles, newProjectStyleId).id}
+                onChange={e => setNewProjectStyleId(e.target.value)}
                 className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-purple-500 outline-none"
               >
-                {Object.values(AnimationStyle).map(s => <option key={s} value={s}>{s}</option>)}
+                {styles.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
               </select>
             </div>
           </div>
@@ -280,6 +1081,36 @@ const App: React.FC = () => {
             />
           </div>
           
+          {castLibrary.length > 0 && (
+            <div>
+              <label className="text-gray-400 text-sm font-bold mb-2 flex justify-between items-center">
+                Recurring Cast (Optional)
+                <button onClick={() => setShowCastLibrary(true)} className="text-xs font-medium text-purple-400 hover:text-purple-300 flex items-center gap-1">
+                  <Users size={12} /> Manage
+                </button>
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {castLibrary.map(entry => {
+                  const isPicked = newProjectCastIds.includes(entry.id);
+                  return (
+                    <button
+                      key={entry.id}
+                      onClick={() => setNewProjectCastIds(prev => isPicked ? prev.filter(id => id !== entry.id) : [...prev, entry.id])}
+                      className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                        isPicked ? 'bg-purple-600/30 border-purple-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {entry.name}
+                    </button>
+                  );
+                })}
+              </div>
+              {newProjectCastIds.length > 0 && !customCharacters && (
+                <p className="text-xs text-gray-500 mt-2">The picked characters replace the default cast.</p>
+              )}
+            </div>
+          )}
+
           {customCharacters && (
             <div className="bg-purple-900/20 border border-purple-500/30 p-3 rounded-lg flex items-center gap-3">
               <div className="bg-purple-500/20 p-2 rounded-full">
@@ -306,6 +1137,8 @@ const App: React.FC = () => {
 
   const renderWorkspace = () => {
     if (!currentProject) return null;
+    const currentStyle = getStylePreset(styles, currentProject.styleId);
+    const currentSeries = seriesList.find(s => s.id === currentProject.seriesId);
     return (
       <div className="flex flex-col h-screen">
         {/* Header */}
@@ -320,16 +1153,90 @@ const App: React.FC = () => {
                 <div className="flex items-center gap-2 text-xs text-gray-500">
                   <span className="bg-gray-800 px-2 py-0.5 rounded text-purple-400">{currentProject.type.split(' ')[0]}</span>
                   <span>•</span>
-                  <span>{currentProject.style}</span>
+                  <select
+                    value={currentStyle.id}
+                    onChange={e => updateProject({ ...currentProject, styleId: e.target.value }, 'Changed style')}
+                    title="Art style"
+                    className="bg-transparent text-gray-500 hover:text-gray-300 outline-none cursor-pointer"
+                  >
+                    {styles.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                  <button onClick={() => setShowStyleLibrary(true)} title="Style library" className="text-gray-500 hover:text-purple-400">
+                    <Palette size={12} />
+                  </button>
+                  {currentSeries && (
+                    <>
+                      <span>•</span>
+                      <button onClick={() => setEditingSeries(currentSeries)} title="Series and story so far" className="flex items-center gap-1 text-gray-500 hover:text-purple-400">
+                        <Tv size={12} /> {currentSeries.name}, Ep {currentProject.episodeNumber}
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
             
             <div className="flex items-center gap-3">
-              <span className="text-xs text-gray-500 hidden sm:inline">Auto-saved to LocalStorage</span>
-              <button className="bg-gray-800 text-gray-300 hover:text-white px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-2 border border-gray-700">
-                <Save size={14} /> Saved
+              <div className="flex items-center bg-gray-800 rounded-md border border-gray-700">
+                <button
+                  onClick={handleUndo}
+                  disabled={!canUndo(currentHistory)}
+                  title="Undo (Ctrl+Z)"
+                  className="p-1.5 text-gray-300 hover:text-white disabled:text-gray-600"
+                >
+                  <Undo2 size={16} />
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={!canRedo(currentHistory)}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="p-1.5 text-gray-300 hover:text-white disabled:text-gray-600"
+                >
+                  <Redo2 size={16} />
+                </button>
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  title="History"
+                  className={`p-1.5 border-l border-gray-700 ${showHistory ? 'text-purple-400' : 'text-gray-300 hover:text-white'}`}
+                >
+                  <History size={16} />
+                </button>
+              </div>
+              <button
+                onClick={() => setShowSnapshots(true)}
+                className="bg-gray-800 text-gray-300 hover:text-white px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-2 border border-gray-700"
+              >
+                <Bookmark size={14} /> Versions
+                {!!currentProject.snapshots?.length && <span className="text-xs text-gray-500">{currentProject.snapshots.length}</span>}
               </button>
+              <button
+                onClick={() => setSettingsPanel('project')}
+                className="bg-gray-800 text-gray-300 hover:text-white px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-2 border border-gray-700"
+              >
+                <Cpu size={14} /> {currentProject.aiSettings?.provider || aiSettings.provider}
+              </button>
+              {storageUsage && (
+                <span className="text-xs text-gray-500 hidden sm:inline">
+                  {formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}
+                </span>
+              )}
+              {pendingSaves > 0 ? (
+                <span className="bg-gray-800 text-gray-400 px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-2 border border-gray-700">
+                  <Loader2 size={14} className="animate-spin" /> Saving...
+                </span>
+              ) : saveError ? (
+                <button
+                  onClick={() => persistProject(currentProject)}
+                  title={saveError}
+                  className="bg-red-900/40 text-red-300 hover:text-white px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-2 border border-red-700"
+                >
+                  <AlertTriangle size={14} /> Save failed – Retry
+                </button>
+              ) : (
+                <span className="bg-gray-800 text-gray-300 px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-2 border border-gray-700">
+                  <Save size={14} /> Saved
+                </span>
+              )}
             </div>
           </div>
         </header>
@@ -345,24 +1252,52 @@ const App: React.FC = () => {
                 <h3 className="text-lg font-bold text-white mb-3">Story Plot</h3>
                 <textarea
                   value={currentProject.storyIdea}
-                  onChange={(e) => updateProject({ ...currentProject, storyIdea: e.target.value })}
+                  onChange={(e) => updateProject({ ...currentProject, storyIdea: e.target.value }, 'Edited story plot')}
                   className="w-full h-32 bg-gray-900 border border-gray-700 rounded-lg p-3 text-sm text-gray-200 focus:outline-none focus:border-purple-500 mb-4"
                   placeholder="Describe your story here..."
                 />
-                <button
-                  onClick={handleGenerateScript}
-                  disabled={isGenerating || !currentProject.storyIdea}
-                  className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white py-3 rounded-lg font-bold shadow-lg flex justify-center items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isGenerating ? <Loader2 className="animate-spin" /> : <LayoutGrid size={18} />}
-                  {currentProject.scenes.length > 0 ? "Regenerate Scenes" : "Generate Scenes"}
-                </button>
+                {generatingProjectId === currentProject.id ? (
+                  <button
+                    onClick={() => sceneStreamRef.current?.abort()}
+                    title="Stop generating and keep the scenes received so far"
+                    className="w-full bg-gray-700 hover:bg-gray-600 text-white py-3 rounded-lg font-bold shadow-lg flex justify-center items-center gap-2 transition-all"
+                  >
+                    <Loader2 className="animate-spin" />
+                    Stop Generating
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleGenerateScript()}
+                    disabled={!!generatingProjectId || !currentProject.storyIdea}
+                    title={generatingProjectId ? 'Scenes are being generated for another project' : undefined}
+                    className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white py-3 rounded-lg font-bold shadow-lg flex justify-center items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <LayoutGrid size={18} />
+                    {currentProject.scenes.length > 0 ? "Regenerate Scenes" : "Generate Scenes"}
+                    {currentProject.beats?.length ? " from Outline" : ""}
+                  </button>
+                )}
               </div>
 
+              {/* Outline Section */}
+              <OutlineEditor
+                project={currentProject}
+                onUpdateProject={updateProject}
+                onUpdateLatestProject={(change, label) => updateLatestProject(currentProject.id, change, label)}
+              />
+
               {/* Characters Section */}
               <CharacterManager 
+                projectName={currentProject.name}
                 characters={currentProject.characters} 
-                onUpdate={(chars) => updateProject({ ...currentProject, characters: chars })}
+                scenes={currentProject.scenes}
+                style={currentStyle}
+                aiSettings={currentProject.aiSettings}
+                library={castLibrary}
+                onUpdate={(chars, label, scenes = currentProject.scenes) => updateProject({ ...currentProject, characters: chars, scenes: pruneCast(scenes, chars) }, label)}
+                onSetReferenceImage={(characterId, image, label) => setCharacterReference(currentProject.id, characterId, image, label)}
+                onAddToLibrary={handleAddToLibrary}
+                onSaveToLibrary={handleSaveToLibrary}
               />
             </div>
 
@@ -371,7 +1306,13 @@ const App: React.FC = () => {
               {currentProject.scenes.length > 0 ? (
                 <Storyboard 
                   project={currentProject} 
+                  style={currentStyle}
                   onUpdateProject={updateProject} 
+                  onUpdateLatestProject={(change, label) => updateLatestProject(currentProject.id, change, label)}
+                  previewJobs={previewQueue?.jobs.filter(j => j.projectId === currentProject.id) || []}
+                  onQueuePreviews={handleQueuePreviews}
+                  onRegenerateBeat={handleGenerateScript}
+                  isGeneratingScenes={generatingProjectId !== null}
                 />
               ) : (
                 <div className="bg-gray-900/50 border-2 border-dashed border-gray-800 rounded-xl h-full min-h-[400px] flex flex-col items-center justify-center text-center p-8">
@@ -382,6 +1323,12 @@ const App: React.FC = () => {
                   <p className="text-gray-500 max-w-md">
                     Enter your story idea on the left and click "Generate Scenes" to let AI create your script and visual prompts.
                   </p>
+                  <button
+                    onClick={() => updateProject({ ...currentProject, scenes: insertBlankScene([], 0) }, 'Added scene 1')}
+                    className="mt-4 text-purple-400 hover:underline text-sm flex items-center gap-1"
+                  >
+                    <Plus size={14} /> Or start with a blank scene
+                  </button>
                 </div>
               )}
             </div>
@@ -397,6 +1344,85 @@ const App: React.FC = () => {
       {view === 'dashboard' && renderDashboard()}
       {view === 'create' && renderCreateWizard()}
       {view === 'workspace' && renderWorkspace()}
+      {view === 'workspace' && showHistory && currentHistory && (
+        <HistoryPanel
+          history={currentHistory}
+          onJump={(index) => applyHistory(jumpTo(currentHistory, index))}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+      {view === 'workspace' && showSnapshots && currentProject && (
+        <SnapshotsPanel
+          project={currentProject}
+          onUpdateProject={updateProject}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+      {showStyleLibrary && (
+        <StyleLibraryPanel
+          styles={styles}
+          projects={projects}
+          initialStyleId={view === 'workspace' ? currentProject?.styleId : view === 'create' ? newProjectStyleId : undefined}
+          onSave={handleSaveStyle}
+          onDelete={handleDeleteStyle}
+          onImport={(imported) => imported.forEach(handleSaveStyle)}
+          onClose={() => setShowStyleLibrary(false)}
+        />
+      )}
+      {showCastLibrary && (
+        <CastLibraryPanel
+          library={castLibrary}
+          projects={projects}
+          onSave={(entry) => handleSaveLibraryCharacter(entry)}
+          onDelete={handleDeleteLibraryCharacter}
+          onClose={() => setShowCastLibrary(false)}
+        />
+      )}
+      {editingSeries && (
+        <SeriesPanel
+          key={editingSeries.id}
+          series={editingSeries}
+          isNew={!seriesList.some(s => s.id === editingSeries.id)}
+          styles={styles}
+          library={castLibrary}
+          projects={projects}
+          standaloneProjects={standaloneProjects}
+          summarizingIds={summarizingIds}
+          onSave={handleSaveSeries}
+          onDelete={handleDeleteSeries}
+          onUpdateEpisode={updateProject}
+          onSummarize={(project) => handleSummarizeEpisode(project)}
+          onOpenEpisode={(project) => {
+            setEditingSeries(null);
+            openProject(project);
+          }}
+          onClose={() => setEditingSeries(null)}
+        />
+      )}
+      {previewQueue && previewQueue.jobs.length > 0 && (
+        <PreviewQueuePanel
+          state={previewQueue}
+          projects={projects}
+          queue={queue}
+        />
+      )}
+      {settingsPanel === 'global' && (
+        <AISettingsPanel
+          title="AI Settings"
+          settings={aiSettings}
+          onChange={handleUpdateAISettings}
+          onClose={() => setSettingsPanel(null)}
+        />
+      )}
+      {settingsPanel === 'project' && currentProject && (
+        <AISettingsPanel
+          title="Project AI Settings"
+          settings={currentProject.aiSettings || {}}
+          inherited={aiSettings}
+          onChange={(settings) => updateProject({ ...currentProject, aiSettings: settings }, 'Changed AI settings')}
+          onClose={() => setSettingsPanel(null)}
+        />
+      )}
     </>
   );
 };
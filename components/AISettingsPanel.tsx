@@ -0,0 +1,105 @@
+import React from 'react';
+import { AIProviderId, AISettings, AITask } from '../types';
+import { DEFAULT_OPENAI_BASE_URL, PROVIDERS, getProvider } from '../services/providers';
+import { Cpu, X } from 'lucide-react';
+
+interface AISettingsPanelProps {
+  title: string;
+  settings: Partial<AISettings>;
+  // When set, the panel edits an override layered on top of these (empty fields inherit)
+  inherited?: AISettings;
+  onChange: (settings: Partial<AISettings>) => void;
+  onClose: () => void;
+}
+
+const TASK_LABELS: Record<AITask, string> = {
+  scenes: 'Scene generation model',
+  idea: 'Idea brainstorm model',
+  image: 'Preview image model',
+  rebalance: 'Duration rebalance model',
+  rewrite: 'Scene rewrite model',
+  outline: 'Outline model',
+  summary: 'Episode summary model',
+};
+
+export const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ title, settings, inherited, onChange, onClose }) => {
+  const effectiveProvider = settings.provider || inherited?.provider || 'gemini';
+  const provider = getProvider(effectiveProvider);
+  const inheritsConnection = !!inherited && (!settings.provider || settings.provider === inherited.provider);
+
+  const setModel = (task: AITask, model: string) => {
+    onChange({ ...settings, models: { ...settings.models, [task]: model || undefined } });
+  };
+
+  const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-lg p-2.5 text-sm text-white focus:ring-2 focus:ring-purple-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-lg p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Cpu className="text-purple-400" size={20} /> {title}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-gray-400 text-sm font-bold mb-2">Provider</label>
+            <select
+              value={settings.provider || ''}
+              onChange={e => onChange({ ...settings, provider: (e.target.value || undefined) as AIProviderId | undefined, models: {} })}
+              className={inputClass}
+            >
+              {inherited && <option value="">Use global ({getProvider(inherited.provider).label})</option>}
+              {Object.values(PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+
+          {effectiveProvider === 'openai-compatible' && (
+            <div>
+              <label className="block text-gray-400 text-sm font-bold mb-2">Base URL</label>
+              <input
+                type="text"
+                value={settings.baseUrl || ''}
+                onChange={e => onChange({ ...settings, baseUrl: e.target.value || undefined })}
+                placeholder={(inheritsConnection && inherited?.baseUrl) || DEFAULT_OPENAI_BASE_URL}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {effectiveProvider !== 'mock' && (
+            <div>
+              <label className="block text-gray-400 text-sm font-bold mb-2">API Key</label>
+              <input
+                type="password"
+                value={settings.apiKey || ''}
+                onChange={e => onChange({ ...settings, apiKey: e.target.value || undefined })}
+                placeholder={inheritsConnection && inherited?.apiKey ? 'Inherited from global settings' : effectiveProvider === 'gemini' ? 'Uses GEMINI_API_KEY from the environment' : 'Optional'}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          <div className="border-t border-gray-700 pt-4 space-y-3">
+            {(Object.keys(TASK_LABELS) as AITask[]).map(task => (
+              <div key={task}>
+                <label className="block text-gray-400 text-xs font-bold mb-1">{TASK_LABELS[task]}</label>
+                <input
+                  type="text"
+                  value={settings.models?.[task] || ''}
+                  onChange={e => setModel(task, e.target.value)}
+                  placeholder={(inheritsConnection && inherited?.models[task]) || provider.defaultModels[task]}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Project } from '../types';
+import { Animatic, clipIndexAt, drawAnimaticFrame, getAnimaticSize, loadAnimatic, renderAnimaticWebM } from '../services/animatic';
+import { getAspectRatio } from '../services/framing';
+import { formatDuration } from '../services/durations';
+import { downloadBlob, toFileSlug } from '../services/fileUtils';
+import { Clapperboard, Play, Pause, SkipBack, Captions, Video, Loader2, X } from 'lucide-react';
+
+interface AnimaticPlayerProps {
+  project: Project;
+  startSceneId: string;
+  onClose: () => void;
+}
+
+const formatClock = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+export const AnimaticPlayer: React.FC<AnimaticPlayerProps> = ({ project, startSceneId, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderControllerRef = useRef<AbortController | null>(null);
+  const [animatic, setAnimatic] = useState<Animatic | null>(null);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+
+  const { width, height } = getAnimaticSize(getAspectRatio(project));
+  const isRendering = renderProgress !== null;
+
+  // The animatic is a snapshot of the storyboard when the player opens
+  useEffect(() => {
+    let cancelled = false;
+    loadAnimatic(project.scenes, project.characters).then(loaded => {
+      if (cancelled) return;
+      setAnimatic(loaded);
+      setTime(loaded.clips.find(c => c.scene.id === startSceneId)?.start || 0);
+      setIsPlaying(loaded.duration > 0);
+    });
+    return () => {
+      cancelled = true;
+      renderControllerRef.current?.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (animatic && ctx && !isRendering) drawAnimaticFrame(ctx, animatic, time, showCaptions);
+  }, [animatic, time, showCaptions, isRendering]);
+
+  useEffect(() => {
+    if (!isPlaying || !animatic) return;
+    let frameRequest = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - last) / 1000;
+      last = now;
+      setTime(t => {
+        const next = t + delta;
+        if (next >= animatic.duration) {
+          setIsPlaying(false);
+          return animatic.duration;
+        }
+        return next;
+      });
+      frameRequest = requestAnimationFrame(tick);
+    };
+    frameRequest = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameRequest);
+  }, [isPlaying, animatic]);
+
+  const togglePlay = () => {
+    if (!animatic) return;
+    // Playing from the end starts over
+    if (!isPlaying && time >= animatic.duration) setTime(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const playFrom = (start: number) => {
+    setTime(start);
+    setIsPlaying(true);
+  };
+
+  const handleRender = async () => {
+    if (!animatic || !canvasRef.current) return;
+    setIsPlaying(false);
+    const controller = new AbortController();
+    renderControllerRef.current = controller;
+    setRenderProgress(0);
+    try {
+      const blob = await renderAnimaticWebM(animatic, canvasRef.current, showCaptions, setRenderProgress, controller.signal);
+      downloadBlob(blob, `${toFileSlug(project.name)}_animatic.webm`);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error("Error rendering animatic:", e);
+        alert(e instanceof Error ? e.message : "Failed to render the animatic.");
+      }
+    } finally {
+      renderControllerRef.current = null;
+      setRenderProgress(null);
+    }
+  };
+
+  const currentIndex = animatic ? clipIndexAt(animatic, time) : -1;
+  const missingPreviews = project.scenes.filter(s => !s.generatedImageUrl).length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={isRendering ? undefined : onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[95vh] p-6 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Clapperboard className="text-purple-400" size={20} /> Animatic
+          </h2>
+          <button onClick={onClose} disabled={isRendering} className="text-gray-400 hover:text-white disabled:opacity-30 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center bg-black rounded-lg overflow-hidden">
+          {animatic ? (
+            <canvas ref={canvasRef} width={width} height={height} className="max-w-full max-h-[60vh]" onClick={isRendering ? undefined : togglePlay} />
+          ) : (
+            <div className="h-64 flex items-center justify-center text-gray-500"><Loader2 className="animate-spin" /></div>
+          )}
+        </div>
+
+        {animatic && (
+          <>
+            <div className="flex items-center gap-3 mt-4">
+              <button onClick={() => playFrom(0)} disabled={isRendering} title="Back to the start" className="text-gray-400 hover:text-white disabled:opacity-30 p-1">
+                <SkipBack size={18} />
+              </button>
+              <button onClick={togglePlay} disabled={isRendering} className="bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 text-white p-2 rounded-full">
+                {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={animatic.duration}
+                step={0.05}
+                value={time}
+                disabled={isRendering}
+                onChange={e => setTime(Number(e.target.value))}
+                className="flex-1 accent-purple-500"
+              />
+              <span className="text-xs text-gray-400 font-mono w-24 text-right">{formatClock(time)} / {formatClock(animatic.duration)}</span>
+              <button
+                onClick={() => setShowCaptions(!showCaptions)}
+                disabled={isRendering}
+                title="Show dialogue and voiceover as captions"
+                className={`p-1.5 rounded-lg border ${showCaptions ? 'bg-purple-600/30 border-purple-500/60 text-purple-200' : 'border-gray-700 text-gray-500 hover:text-white'}`}
+              >
+                <Captions size={16} />
+              </button>
+            </div>
+
+            <div className="flex gap-1.5 mt-3 overflow-x-auto pb-1">
+              {animatic.clips.map((clip, index) => (
+                <button
+                  key={clip.scene.id}
+                  onClick={() => playFrom(clip.start)}
+                  disabled={isRendering}
+                  title={`Play from scene ${clip.scene.sceneNumber} (${formatDuration(clip.end - clip.start)})`}
+                  className={`shrink-0 text-xs px-2.5 py-1 rounded border transition-colors ${
+                    index === currentIndex ? 'bg-purple-600/30 border-purple-500/60 text-purple-200' : 'border-gray-700 text-gray-500 hover:text-white'
+                  }`}
+                >
+                  {clip.scene.sceneNumber}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between gap-4 mt-4 pt-4 border-t border-gray-700">
+              <p className="text-xs text-gray-500">
+                {isRendering
+                  ? 'Rendering in real time, keep this tab in front until it finishes.'
+                  : missingPreviews > 0 ? `${missingPreviews} scenes have no preview and show a placeholder.` : `${width}×${height} WebM, rendered in the browser.`}
+              </p>
+              {isRendering ? (
+                <div className="flex items-center gap-3">
+                  <div className="w-40 h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-purple-500" style={{ width: `${Math.round(renderProgress! * 100)}%` }} />
+                  </div>
+                  <button onClick={() => renderControllerRef.current?.abort()} className="text-sm text-gray-400 hover:text-white">Cancel</button>
+                </div>
+              ) : (
+                <button
+                  onClick={handleRender}
+                  disabled={animatic.duration === 0}
+                  className="bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors"
+                >
+                  <Video size={16} /> Render WebM
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
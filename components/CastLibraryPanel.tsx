@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Character, Project } from '../types';
+import { CHARACTER_FIELDS, CharacterField, validateCharacter } from '../services/characters';
+import { getLinkedProjects } from '../services/castLibrary';
+import { readFileAsDataUrl } from '../services/fileUtils';
+import { Users, Plus, Save, Trash2, ImagePlus, X } from 'lucide-react';
+
+interface CastLibraryPanelProps {
+  library: Character[];
+  projects: Project[]; // To show which projects use each character
+  onSave: (entry: Character) => void;
+  onDelete: (entry: Character) => void;
+  onClose: () => void;
+}
+
+const emptyEntry = (): Character => ({ id: crypto.randomUUID(), name: '', description: '', features: '' });
+
+export const CastLibraryPanel: React.FC<CastLibraryPanelProps> = ({ library, projects, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<Character>(() => library[0] || emptyEntry());
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<CharacterField, string>>>({});
+
+  const saved = library.find(c => c.id === draft.id);
+  const isDirty = !saved || JSON.stringify(saved) !== JSON.stringify(draft);
+
+  const select = (entry: Character) => {
+    if (entry.id === draft.id) return;
+    if (isDirty && (saved || draft.name.trim()) && !confirm(`Discard your changes to "${draft.name || 'the new character'}"?`)) return;
+    setDraft(entry);
+    setFieldErrors({});
+  };
+
+  const updateDraft = (key: CharacterField, value: string) => {
+    setDraft({ ...draft, [key]: value });
+    setFieldErrors(prev => ({ ...prev, [key]: undefined }));
+  };
+
+  const handleSave = () => {
+    const errors = validateCharacter(draft, library.filter(c => c.id !== draft.id));
+    if (Object.keys(errors).length > 0) {
+      setFieldErrors(errors);
+      return;
+    }
+    const entry: Character = {
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      features: draft.features.trim(),
+      personality: draft.personality?.trim() || undefined,
+    };
+    setDraft(entry);
+    onSave(entry);
+  };
+
+  const handleDelete = () => {
+    if (!saved) return;
+    const count = getLinkedProjects(projects, saved.id).length;
+    const inUse = count > 0 ? `\n\n${count} project${count === 1 ? ' keeps its copy' : 's keep their copies'}, no longer linked to the library.` : '';
+    if (!confirm(`Delete "${saved.name}" from the cast library?${inUse}`)) return;
+    onDelete(saved);
+    setDraft(library.find(c => c.id !== saved.id) || emptyEntry());
+  };
+
+  const handleUploadReference = async (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      alert("Please choose an image file.");
+      return;
+    }
+    try {
+      const referenceImageUrl = await readFileAsDataUrl(file);
+      setDraft(d => ({ ...d, referenceImageUrl }));
+    } catch (e) {
+      console.error("Error reading reference image:", e);
+      alert("Failed to read the image file.");
+    }
+  };
+
+  const inputClass = (key: CharacterField) =>
+    `w-full bg-gray-900 border rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-1 focus:ring-purple-500 resize-none ${fieldErrors[key] ? 'border-red-500' : 'border-gray-700'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] p-6 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Users className="text-purple-400" size={20} /> Cast Library
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-6">
+          Recurring characters you can add to any project. Projects keep a linked copy, so a change here can be pushed to every project using the character.
+        </p>
+
+        <div className="flex gap-6 min-h-0 flex-1">
+          <div className="w-56 shrink-0 flex flex-col min-h-0">
+            <div className="overflow-y-auto space-y-1 pr-1">
+              {[...library, ...(saved ? [] : [draft])].map(entry => {
+                const count = getLinkedProjects(projects, entry.id).length;
+                return (
+                  <button
+                    key={entry.id}
+                    onClick={() => select(entry)}
+                    className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                      entry.id === draft.id ? 'bg-purple-600/20 border-purple-500/60' : 'border-transparent hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <div className="text-sm text-white truncate">{(entry.id === draft.id ? draft.name : entry.name) || 'New character'}</div>
+                    <div className="text-xs text-gray-500">
+                      {entry.id === draft.id && !saved ? 'Not saved' : count > 0 ? `${count} project${count === 1 ? '' : 's'}` : 'Unused'}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => select(emptyEntry())}
+              disabled={!saved}
+              className="mt-3 w-full text-sm border border-dashed border-gray-600 hover:border-purple-500 disabled:opacity-50 text-gray-400 hover:text-white px-3 py-2 rounded-lg flex items-center justify-center gap-1.5 transition-colors"
+            >
+              <Plus size={14} /> New Character
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto pr-1 space-y-4">
+            {CHARACTER_FIELDS.map(({ key, label, required }) => (
+              <div key={key}>
+                <label className="block text-gray-400 text-xs font-bold mb-1">{label}{required ? '' : ' (optional)'}</label>
+                {key === 'name' ? (
+                  <input type="text" value={draft.name} onChange={e => updateDraft(key, e.target.value)} className={inputClass(key)} />
+                ) : (
+                  <textarea value={draft[key] || ''} onChange={e => updateDraft(key, e.target.value)} rows={2} className={inputClass(key)} />
+                )}
+                {fieldErrors[key] && <p className="text-red-400 text-xs mt-1">{fieldErrors[key]}</p>}
+              </div>
+            ))}
+
+            <div>
+              <label className="block text-gray-400 text-xs font-bold mb-1">Reference sheet</label>
+              <div className="flex items-start gap-3">
+                {draft.referenceImageUrl ? (
+                  <img src={draft.referenceImageUrl} alt="" className="w-48 aspect-video rounded-lg border border-gray-700 object-cover" />
+                ) : (
+                  <div className="w-48 aspect-video rounded-lg border border-dashed border-gray-700 flex items-center justify-center text-xs text-gray-600">None</div>
+                )}
+                <div className="flex flex-col gap-2">
+                  <label className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 px-3 py-1.5 rounded-lg flex items-center gap-1.5 cursor-pointer transition-colors">
+                    <ImagePlus size={14} /> Upload
+                    <input type="file" accept="image/*" className="hidden" onChange={e => {
+                      handleUploadReference(e.target.files?.[0]);
+                      e.target.value = '';
+                    }} />
+                  </label>
+                  {draft.referenceImageUrl && (
+                    <button onClick={() => setDraft({ ...draft, referenceImageUrl: undefined })} className="text-xs text-gray-400 hover:text-red-400 text-left">
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 pt-2 border-t border-gray-700">
+              <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors"
+              >
+                <Save size={14} /> Save
+              </button>
+              {saved && (
+                <button onClick={handleDelete} className="ml-auto text-gray-400 hover:text-red-400 px-3 py-2 text-sm flex items-center gap-1.5">
+                  <Trash2 size={14} /> Delete
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,262 @@
 import React, { useState } from 'react';
-import { Character, INITIAL_CHARACTERS_JSON } from '../types';
-import { User, Sparkles, Upload, Save, Trash2 } from 'lucide-react';
+import { AISettings, Character, INITIAL_CHARACTERS_JSON, Scene, StylePreset } from '../types';
+import { generateCharacterSheet } from '../services/geminiService';
+import { downloadBlob, readFileAsDataUrl, toFileSlug } from '../services/fileUtils';
+import {
+  CHARACTER_FIELDS, CharacterConflict, CharacterField, ConflictResolution, countNameMentions, exportCharactersJson,
+  findCharacterConflicts, findConflictErrors, getScreenTime, importCharacters, parseCharactersJson, renameInScenes, validateCharacter,
+} from '../services/characters';
+import { copyFromLibrary, detachFromLibrary, getLibraryEntry, isInSync, syncFromLibrary } from '../services/castLibrary';
+import { formatDuration } from '../services/durations';
+import { User, Sparkles, Upload, Download, Save, Trash2, ImagePlus, Loader2, X, Clock, Edit2, Plus, Library, Unlink } from 'lucide-react';
 
 interface CharacterManagerProps {
+  projectName: string;
   characters: Character[];
-  onUpdate: (chars: Character[]) => void;
+  scenes: Scene[];
+  style: StylePreset;
+  aiSettings?: Partial<AISettings>;
+  library: Character[]; // The cast library shared by every project
+  // `scenes` is passed when the change also rewrites scenes (renaming in prompts)
+  onUpdate: (chars: Character[], label: string, scenes?: Scene[]) => void;
+  // Applied to the latest cast: sheets can finish after other edits (or other sheets) have landed
+  onSetReferenceImage: (characterId: string, referenceImageUrl: string | undefined, label: string) => void;
+  onAddToLibrary: (char: Character) => void;
+  onSaveToLibrary: (char: Character) => void; // Makes this project's version the library's
 }
 
-export const CharacterManager: React.FC<CharacterManagerProps> = ({ characters, onUpdate }) => {
+const RESOLUTIONS: { id: ConflictResolution; label: string; hint: string }[] = [
+  { id: 'merge', label: 'Merge', hint: 'Imported fields overwrite; personality and reference image are kept when the file has none' },
+  { id: 'replace', label: 'Replace', hint: 'The imported character replaces the existing one' },
+  { id: 'skip', label: 'Skip', hint: 'Keep the existing character and ignore the imported one' },
+];
+
+const emptyCharacter = (): Character => ({ id: crypto.randomUUID(), name: '', description: '', features: '' });
+
+export const CharacterManager: React.FC<CharacterManagerProps> = ({ projectName, characters, scenes, style, aiSettings, library, onUpdate, onSetReferenceImage, onAddToLibrary, onSaveToLibrary }) => {
   const [jsonInput, setJsonInput] = useState(INITIAL_CHARACTERS_JSON);
   const [viewMode, setViewMode] = useState<'visual' | 'json'>('visual');
-  const [error, setError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ characters: Character[]; conflicts: CharacterConflict[] } | null>(null);
+  const [resolution, setResolution] = useState<ConflictResolution>('merge');
+  const [editing, setEditing] = useState<{ draft: Character; isNew: boolean } | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<CharacterField, string>>>({});
+  const [generatingIds, setGeneratingIds] = useState<string[]>([]);
+  const screenTime = getScreenTime(scenes);
+
+  const applyImport = (incoming: Character[], chosen: ConflictResolution) => {
+    const skipped = chosen === 'skip' ? findCharacterConflicts(characters, incoming).length : 0;
+    onUpdate(importCharacters(characters, incoming, chosen), `Imported ${incoming.length - skipped} characters`);
+    setPendingImport(null);
+    alert(`Imported ${incoming.length - skipped} characters${skipped > 0 ? ` (${skipped} skipped)` : ''}.`);
+  };
 
   const handleImportJson = () => {
+    const { characters: incoming, errors } = parseCharactersJson(jsonInput);
+    setImportErrors(errors);
+    setPendingImport(null);
+    if (errors.length > 0) return;
+    if (incoming.length === 0) {
+      setImportErrors(["The \"characters\" array is empty."]);
+      return;
+    }
+    const conflicts = findCharacterConflicts(characters, incoming);
+    const conflictErrors = findConflictErrors(conflicts);
+    if (conflictErrors.length > 0) {
+      setImportErrors(conflictErrors);
+      return;
+    }
+    if (conflicts.length > 0) {
+      setPendingImport({ characters: incoming, conflicts });
+    } else {
+      applyImport(incoming, 'merge');
+    }
+  };
+
+  const handleExportJson = () => {
+    downloadBlob(new Blob([exportCharactersJson(characters)], { type: 'application/json' }), `${toFileSlug(projectName)}_characters.json`);
+  };
+
+  const startEditing = (draft: Character, isNew: boolean) => {
+    setEditing({ draft, isNew });
+    setFieldErrors({});
+  };
+
+  const updateDraft = (key: CharacterField, value: string) => {
+    if (!editing) return;
+    setEditing({ ...editing, draft: { ...editing.draft, [key]: value } });
+    setFieldErrors(prev => ({ ...prev, [key]: undefined }));
+  };
+
+  const handleSaveCharacter = () => {
+    if (!editing) return;
+    const { draft, isNew } = editing;
+    const errors = validateCharacter(draft, characters.filter(c => c.id !== draft.id));
+    if (Object.keys(errors).length > 0) {
+      setFieldErrors(errors);
+      return;
+    }
+    const saved: Character = {
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      features: draft.features.trim(),
+      personality: draft.personality?.trim() || undefined,
+    };
+    setEditing(null);
+
+    if (isNew) {
+      onUpdate([...characters, saved], `Added character ${saved.name}`);
+      return;
+    }
+    const previous = characters.find(c => c.id === saved.id)!;
+    replaceCharacter(previous, saved, previous.name === saved.name ? `Edited character ${saved.name}` : `Renamed ${previous.name} to ${saved.name}`);
+  };
+
+  const replaceCharacter = (previous: Character, updated: Character, label: string) => {
+    const chars = characters.map(c => c.id === previous.id ? updated : c);
+    if (previous.name === updated.name) {
+      onUpdate(chars, label);
+      return;
+    }
+    // Prompts name characters explicitly, so a rename would leave them describing someone else
+    const mentions = countNameMentions(scenes, previous.name);
+    if (mentions > 0 && confirm(`Replace "${previous.name}" with "${updated.name}" in the ${mentions} scene${mentions === 1 ? '' : 's'} whose prompt or script mentions them?`)) {
+      onUpdate(chars, label, renameInScenes(scenes, previous.name, updated.name));
+    } else {
+      onUpdate(chars, label);
+    }
+  };
+
+  const addFromLibrary = (entryId: string) => {
+    const entry = library.find(c => c.id === entryId);
+    if (!entry) return;
+    if (characters.some(c => c.name.trim().toLowerCase() === entry.name.trim().toLowerCase())) {
+      alert(`This project already has a character called "${entry.name}". Rename or remove it first.`);
+      return;
+    }
+    onUpdate([...characters, copyFromLibrary(entry, characters)], `Added ${entry.name} from the cast library`);
+  };
+
+  // Library entries not in the project yet
+  const availableFromLibrary = library.filter(entry => !characters.some(c => c.libraryId === entry.id));
+
+  const renderLibraryLink = (char: Character) => {
+    const entry = getLibraryEntry(library, char);
+    if (!entry) {
+      return (
+        <button onClick={() => onAddToLibrary(char)} title="Reuse this character in other projects" className="text-xs text-gray-500 hover:text-purple-400 flex items-center gap-1">
+          <Library size={12} /> Add to cast library
+        </button>
+      );
+    }
+    const inSync = isInSync(char, entry);
+    return (
+      <div className="text-xs space-y-1">
+        <div className="flex items-center gap-2">
+          <span className={`flex items-center gap-1 ${inSync ? 'text-purple-400' : 'text-yellow-400'}`}>
+            <Library size={12} /> {inSync ? 'From the cast library' : 'Differs from the cast library'}
+          </span>
+          <button
+            onClick={() => onUpdate(characters.map(c => c.id === char.id ? detachFromLibrary(c) : c), `Detached ${char.name} from the cast library`)}
+            title="Keep this copy separate from the library"
+            className="text-gray-500 hover:text-white flex items-center gap-1 ml-auto"
+          >
+            <Unlink size={12} /> Detach
+          </button>
+        </div>
+        {!inSync && (
+          <div className="flex gap-3">
+            <button onClick={() => replaceCharacter(char, syncFromLibrary(char, entry), `Updated ${entry.name} from the cast library`)} className="text-gray-400 hover:text-white underline">
+              Use library version
+            </button>
+            <button onClick={() => onSaveToLibrary(char)} className="text-gray-400 hover:text-white underline">
+              Save this version to the library
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const removeCharacter = (char: Character) => {
+    const cast = screenTime.get(char.id);
+    if (cast) {
+      const lines = cast.lineCount > 0 ? ` and speaks ${cast.lineCount} line${cast.lineCount === 1 ? '' : 's'}` : '';
+      if (!confirm(`${char.name} is cast in ${cast.sceneCount} scene${cast.sceneCount === 1 ? '' : 's'}${lines}. Remove them from the project and those scenes?`)) return;
+    }
+    onUpdate(characters.filter(c => c.id !== char.id), `Removed character ${char.name}`);
+  };
+
+  const setReferenceImage = (char: Character, referenceImageUrl: string | undefined, label: string) => {
+    onSetReferenceImage(char.id, referenceImageUrl, label);
+  };
+
+  const handleUploadReference = async (char: Character, file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      alert("Please choose an image file.");
+      return;
+    }
+    try {
+      setReferenceImage(char, await readFileAsDataUrl(file), `Set reference image for ${char.name}`);
+    } catch (e) {
+      console.error("Error reading reference image:", e);
+      alert("Failed to read the image file.");
+    }
+  };
+
+  const handleGenerateReference = async (char: Character) => {
+    setGeneratingIds(ids => [...ids, char.id]);
     try {
-      const parsed = JSON.parse(jsonInput);
-      if (Array.isArray(parsed.characters)) {
-        onUpdate([...characters, ...parsed.characters]); // Append or replace depending on UX preference. Here appending.
-        setError(null);
-        alert(`Successfully imported ${parsed.characters.length} characters.`);
-      } else {
-        setError("Invalid JSON format: missing 'characters' array.");
-      }
+      const sheet = await generateCharacterSheet(char, style, aiSettings);
+      setReferenceImage(char, sheet, `Generated reference sheet for ${char.name}`);
     } catch (e) {
-      setError("Invalid JSON syntax.");
+      alert("Failed to generate reference sheet. Please try again.");
+    } finally {
+      setGeneratingIds(ids => ids.filter(id => id !== char.id));
     }
   };
 
-  const removeCharacter = (id: string) => {
-    onUpdate(characters.filter(c => c.id !== id));
+  const renderEditForm = () => {
+    if (!editing) return null;
+    const { draft, isNew } = editing;
+    return (
+      <div className="bg-gray-800 border border-purple-500/60 rounded-xl p-5 space-y-3">
+        <h3 className="font-bold text-white">{isNew ? 'New Character' : `Edit ${characters.find(c => c.id === draft.id)?.name || 'Character'}`}</h3>
+        {CHARACTER_FIELDS.map(({ key, label, required }) => (
+          <div key={key}>
+            <label className="block text-xs font-bold text-gray-400 mb-1">{label}{required ? '' : ' (optional)'}</label>
+            {key === 'name' ? (
+              <input
+                type="text"
+                value={draft.name}
+                onChange={e => updateDraft(key, e.target.value)}
+                autoFocus
+                className={`w-full bg-gray-900 border rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-1 focus:ring-purple-500 ${fieldErrors[key] ? 'border-red-500' : 'border-gray-700'}`}
+              />
+            ) : (
+              <textarea
+                value={draft[key] || ''}
+                onChange={e => updateDraft(key, e.target.value)}
+                rows={2}
+                className={`w-full bg-gray-900 border rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-1 focus:ring-purple-500 resize-none ${fieldErrors[key] ? 'border-red-500' : 'border-gray-700'}`}
+              />
+            )}
+            {fieldErrors[key] && <p className="text-red-400 text-xs mt-1">{fieldErrors[key]}</p>}
+          </div>
+        ))}
+        <div className="flex gap-2 pt-1">
+          <button
+            onClick={handleSaveCharacter}
+            className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1.5 transition-colors"
+          >
+            <Save size={14} /> {isNew ? 'Add' : 'Save'}
+          </button>
+          <button onClick={() => setEditing(null)} className="text-sm text-gray-400 hover:text-white px-3 py-1.5">Cancel</button>
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -37,19 +265,40 @@ export const CharacterManager: React.FC<CharacterManagerProps> = ({ characters,
         <h2 className="text-2xl font-bold text-white flex items-center gap-2">
           <User className="text-purple-400" /> Characters
         </h2>
-        <div className="flex bg-gray-800 rounded-lg p-1 border border-gray-700">
-          <button 
-            onClick={() => setViewMode('visual')}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${viewMode === 'visual' ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
-          >
-            Visual List
-          </button>
-          <button 
-            onClick={() => setViewMode('json')}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${viewMode === 'json' ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
-          >
-            JSON Import
-          </button>
+        <div className="flex items-center gap-3">
+          {viewMode === 'visual' && availableFromLibrary.length > 0 && (
+            <select
+              value=""
+              onChange={e => addFromLibrary(e.target.value)}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 outline-none focus:ring-1 focus:ring-purple-500"
+            >
+              <option value="">Add from cast library…</option>
+              {availableFromLibrary.map(entry => <option key={entry.id} value={entry.id}>{entry.name}</option>)}
+            </select>
+          )}
+          {viewMode === 'visual' && (
+            <button
+              onClick={() => startEditing(emptyCharacter(), true)}
+              disabled={editing?.isNew}
+              className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-200 px-4 py-2 rounded-lg text-sm font-medium border border-gray-700 flex items-center gap-2 transition-colors"
+            >
+              <Plus size={16} /> Add Character
+            </button>
+          )}
+          <div className="flex bg-gray-800 rounded-lg p-1 border border-gray-700">
+            <button 
+              onClick={() => setViewMode('visual')}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${viewMode === 'visual' ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
+            >
+              Visual List
+            </button>
+            <button 
+              onClick={() => setViewMode('json')}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${viewMode === 'json' ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
+            >
+              JSON Import / Export
+            </button>
+          </div>
         </div>
       </div>
 
@@ -61,41 +310,155 @@ export const CharacterManager: React.FC<CharacterManagerProps> = ({ characters,
             onChange={(e) => setJsonInput(e.target.value)}
             className="w-full h-64 bg-gray-900 border border-gray-700 rounded-lg p-4 font-mono text-sm text-green-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
           />
-          {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
-          <button 
-            onClick={handleImportJson}
-            className="mt-4 flex items-center gap-2 bg-purple-600 hover:bg-purple-500 text-white px-6 py-2 rounded-lg font-medium transition-colors"
-          >
-            <Upload size={18} /> Import Characters
-          </button>
+          {importErrors.length > 0 && (
+            <ul className="text-red-400 text-sm mt-2 list-disc pl-5 space-y-0.5">
+              {importErrors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          )}
+
+          {pendingImport ? (
+            <div className="mt-4 bg-gray-900/50 border border-yellow-500/30 rounded-lg p-4">
+              <p className="text-sm text-yellow-200 font-medium mb-2">
+                {pendingImport.conflicts.length} of {pendingImport.characters.length} imported characters match ones already in the project:
+              </p>
+              <ul className="text-xs text-gray-400 mb-3 space-y-0.5">
+                {pendingImport.conflicts.map(c => (
+                  <li key={c.incoming.id}>
+                    <span className="text-gray-200">{c.incoming.name}</span> — same {c.by === 'id' ? `id as ${c.existing.name}` : 'name'}
+                  </li>
+                ))}
+              </ul>
+              <div className="space-y-1.5 mb-4">
+                {RESOLUTIONS.map(r => (
+                  <label key={r.id} className="flex items-start gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input type="radio" name="character-conflicts" checked={resolution === r.id} onChange={() => setResolution(r.id)} className="mt-1 accent-purple-500" />
+                    <span><span className="font-medium text-white">{r.label}</span> <span className="text-gray-500 text-xs">{r.hint}</span></span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => applyImport(pendingImport.characters, resolution)}
+                  className="flex items-center gap-2 bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                >
+                  <Upload size={16} /> Import
+                </button>
+                <button onClick={() => setPendingImport(null)} className="text-sm text-gray-400 hover:text-white px-3 py-2">Cancel</button>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-4 flex flex-wrap gap-2">
+              <button 
+                onClick={handleImportJson}
+                className="flex items-center gap-2 bg-purple-600 hover:bg-purple-500 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+              >
+                <Upload size={18} /> Import Characters
+              </button>
+              <button
+                onClick={() => {
+                  setJsonInput(exportCharactersJson(characters));
+                  setImportErrors([]);
+                }}
+                disabled={characters.length === 0}
+                className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 px-4 py-2 rounded-lg text-sm transition-colors"
+              >
+                Load Current Cast
+              </button>
+              <button
+                onClick={handleExportJson}
+                disabled={characters.length === 0}
+                className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 px-4 py-2 rounded-lg text-sm transition-colors"
+              >
+                <Download size={16} /> Export JSON
+              </button>
+            </div>
+          )}
+          <p className="text-xs text-gray-500 mt-3">Reference images are not part of the JSON; export the project bundle to share them.</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {characters.map((char) => (
+          {characters.map((char) => editing?.draft.id === char.id ? (
+            <React.Fragment key={char.id}>{renderEditForm()}</React.Fragment>
+          ) : (
             <div key={char.id} className="bg-gray-800 border border-gray-700 rounded-xl p-5 relative group">
-               <button 
-                onClick={() => removeCharacter(char.id)}
-                className="absolute top-3 right-3 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
-              >
-                <Trash2 size={16} />
-              </button>
+              <div className="absolute top-3 right-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-all">
+                <button onClick={() => startEditing(char, false)} title="Edit character" className="text-gray-600 hover:text-white">
+                  <Edit2 size={16} />
+                </button>
+                <button onClick={() => removeCharacter(char)} title="Remove character" className="text-gray-600 hover:text-red-400">
+                  <Trash2 size={16} />
+                </button>
+              </div>
               <div className="flex items-center gap-3 mb-3">
                 <div className="w-10 h-10 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 flex items-center justify-center text-white font-bold">
                   {char.name.charAt(0)}
                 </div>
-                <h3 className="font-bold text-lg text-white">{char.name}</h3>
+                <div>
+                  <h3 className="font-bold text-lg text-white">{char.name}</h3>
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    <Clock size={11} />
+                    {screenTime.has(char.id)
+                      ? `${screenTime.get(char.id)!.sceneCount} scenes · ${formatDuration(screenTime.get(char.id)!.duration)} on screen · ${screenTime.get(char.id)!.lineCount} lines`
+                      : 'Not in any scene'}
+                  </p>
+                </div>
               </div>
               <div className="space-y-2">
                 <p className="text-sm text-gray-300"><span className="text-gray-500 font-semibold">Desc:</span> {char.description}</p>
                 <p className="text-sm text-gray-300"><span className="text-gray-500 font-semibold">Features:</span> {char.features}</p>
                 {char.personality && <p className="text-sm text-gray-300"><span className="text-gray-500 font-semibold">Personality:</span> {char.personality}</p>}
               </div>
+              <div className="mt-3">{renderLibraryLink(char)}</div>
+
+              {/* Reference sheet: sent with previews of scenes this character appears in */}
+              <div className="mt-4">
+                {char.referenceImageUrl ? (
+                  <div className="relative group/ref">
+                    <img src={char.referenceImageUrl} alt={`${char.name} reference`} className="w-full aspect-video object-cover rounded-lg border border-gray-700" />
+                    <button
+                      onClick={() => setReferenceImage(char, undefined, `Removed reference image for ${char.name}`)}
+                      title="Remove reference image"
+                      className="absolute top-2 right-2 bg-black/60 hover:bg-red-600 text-white p-1 rounded opacity-0 group-hover/ref:opacity-100 transition-all"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="w-full aspect-video rounded-lg border border-dashed border-gray-700 flex items-center justify-center text-xs text-gray-500">
+                    {generatingIds.includes(char.id) ? <Loader2 size={20} className="animate-spin text-purple-400" /> : 'No reference image'}
+                  </div>
+                )}
+                <div className="flex gap-2 mt-2">
+                  <label className="flex-1 cursor-pointer bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs py-1.5 rounded-lg flex items-center justify-center gap-1.5 transition-colors">
+                    <ImagePlus size={14} /> Upload
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={e => {
+                        handleUploadReference(char, e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  <button
+                    onClick={() => handleGenerateReference(char)}
+                    disabled={generatingIds.includes(char.id)}
+                    className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 text-xs py-1.5 rounded-lg flex items-center justify-center gap-1.5 transition-colors"
+                  >
+                    <Sparkles size={14} /> {char.referenceImageUrl ? 'Regenerate' : 'Generate'} Sheet
+                  </button>
+                </div>
+              </div>
             </div>
           ))}
-          {characters.length === 0 && (
+          {editing?.isNew && renderEditForm()}
+          {characters.length === 0 && !editing && (
             <div className="col-span-full text-center py-12 border-2 border-dashed border-gray-700 rounded-xl">
               <p className="text-gray-500 mb-4">No characters added yet.</p>
-              <button onClick={() => setViewMode('json')} className="text-purple-400 hover:underline">Import JSON to get started</button>
+              <button onClick={() => startEditing(emptyCharacter(), true)} className="text-purple-400 hover:underline">Add one</button>
+              <span className="text-gray-600"> or </span>
+              <button onClick={() => setViewMode('json')} className="text-purple-400 hover:underline">import JSON</button>
             </div>
           )}
         </div>
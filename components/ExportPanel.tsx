@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Project, StylePreset } from '../types';
+import { downloadBlob, toFileSlug } from '../services/fileUtils';
+import { PANELS_PER_PAGE_OPTIONS, buildStoryboardSheet } from '../services/storyboardSheet';
+import { buildSubtitles, DEFAULT_SUBTITLE_OPTIONS, SubtitleFormat } from '../services/subtitles';
+import { TIMELINE_FORMATS, TimelineFormat, buildTimeline, getTimelineSettings } from '../services/timelineExport';
+import { hasScript, isSpokenLine } from '../services/scriptLines';
+import { FileText, Printer, Download, X, Captions, Film } from 'lucide-react';
+
+interface ExportPanelProps {
+  project: Project;
+  style: StylePreset;
+  onClose: () => void;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ project, style, onClose }) => {
+  const [panelsPerPage, setPanelsPerPage] = useState(6);
+  const [includePrompts, setIncludePrompts] = useState(true);
+  const [speakerLabels, setSpeakerLabels] = useState(DEFAULT_SUBTITLE_OPTIONS.speakerLabels);
+
+  const missingPreviews = project.scenes.filter(s => !s.generatedImageUrl).length;
+
+  const handlePrint = () => {
+    const html = buildStoryboardSheet(project, style, { panelsPerPage, includePrompts, autoPrint: true });
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+    const printWindow = window.open(url, '_blank');
+    if (!printWindow) {
+      alert("The print window was blocked. Allow pop-ups for this site, or download the HTML instead.");
+    }
+    // The new tab needs the URL until it has loaded
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleDownloadHtml = () => {
+    const html = buildStoryboardSheet(project, style, { panelsPerPage, includePrompts });
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${toFileSlug(project.name)}_storyboard.html`);
+  };
+
+  const handleDownloadSubtitles = (format: SubtitleFormat) => {
+    const text = buildSubtitles(project.scenes, project.characters, format, { ...DEFAULT_SUBTITLE_OPTIONS, speakerLabels });
+    const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    downloadBlob(new Blob([text], { type }), `${toFileSlug(project.name)}.${format}`);
+  };
+
+  const handleDownloadTimeline = (format: TimelineFormat) => {
+    const { extension } = TIMELINE_FORMATS.find(f => f.id === format)!;
+    const type = format === 'otio' ? 'application/json' : format === 'fcpxml' ? 'application/xml' : 'text/plain';
+    downloadBlob(new Blob([buildTimeline(project, format)], { type }), `${toFileSlug(project.name)}.${extension}`);
+  };
+
+  const timeline = getTimelineSettings(project);
+  const hasSpokenLines = project.scenes.some(s => hasScript(s.script.filter(isSpokenLine)));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Printer className="text-blue-400" size={20} /> Print & Export
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <section className="space-y-4">
+          <div>
+            <h3 className="text-sm font-bold text-white flex items-center gap-2"><FileText size={16} className="text-gray-400" /> Storyboard sheet</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              A cover page with the story and characters, then the scenes as panels with frame, duration and script.
+              Print it or choose "Save as PDF" in the print dialog.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <label className="text-sm text-gray-400 flex items-center gap-2">
+              Panels per page
+              <select
+                value={panelsPerPage}
+                onChange={e => setPanelsPerPage(Number(e.target.value))}
+                className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                {PANELS_PER_PAGE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-gray-400 flex items-center gap-2">
+              <input type="checkbox" checked={includePrompts} onChange={e => setIncludePrompts(e.target.checked)} className="accent-blue-500" />
+              Include prompts
+            </label>
+          </div>
+
+          {missingPreviews > 0 && (
+            <p className="text-xs text-yellow-400/80">{missingPreviews} of {project.scenes.length} scenes have no preview yet and show an empty frame.</p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handlePrint}
+              disabled={project.scenes.length === 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-colors"
+            >
+              <Printer size={16} /> Print / Save as PDF
+            </button>
+            <button
+              onClick={handleDownloadHtml}
+              disabled={project.scenes.length === 0}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-white py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-colors"
+            >
+              <Download size={16} /> Download HTML
+            </button>
+          </div>
+        </section>
+
+        <section className="space-y-4 border-t border-gray-700 pt-6 mt-6">
+          <div>
+            <h3 className="text-sm font-bold text-white flex items-center gap-2"><Captions size={16} className="text-gray-400" /> Subtitles</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Dialogue and voiceover timed from the scene durations, with long lines wrapped and split into several captions.
+            </p>
+          </div>
+
+          <label className="text-sm text-gray-400 flex items-center gap-2">
+            <input type="checkbox" checked={speakerLabels} onChange={e => setSpeakerLabels(e.target.checked)} className="accent-blue-500" />
+            Speaker labels (character names, "Narrator" for voiceover)
+          </label>
+
+          <div className="flex gap-3">
+            {(['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => handleDownloadSubtitles(format)}
+                disabled={!hasSpokenLines}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-white py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-colors"
+              >
+                <Download size={16} /> {format === 'srt' ? 'SRT' : 'WebVTT'}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-4 border-t border-gray-700 pt-6 mt-6">
+          <div>
+            <h3 className="text-sm font-bold text-white flex items-center gap-2"><Film size={16} className="text-gray-400" /> Edit timeline</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              One clip per scene at {timeline.width}×{timeline.height}, {timeline.fps} fps, with the script as a marker.
+              Clips point at the image files from Download Assets; scenes without a preview are left offline.
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            {TIMELINE_FORMATS.map(format => (
+              <button
+                key={format.id}
+                onClick={() => handleDownloadTimeline(format.id)}
+                disabled={project.scenes.length === 0}
+                title={format.label}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-white py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-colors"
+              >
+                <Download size={16} /> .{format.extension}
+              </button>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
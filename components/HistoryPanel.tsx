@@ -0,0 +1,46 @@
+import React from 'react';
+import { ProjectHistory } from '../services/history';
+import { History, X } from 'lucide-react';
+
+interface HistoryPanelProps {
+  history: ProjectHistory;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => {
+  return (
+    <aside className="fixed top-0 right-0 bottom-0 w-80 z-30 bg-gray-900 border-l border-gray-800 shadow-2xl flex flex-col">
+      <div className="flex justify-between items-center p-4 border-b border-gray-800">
+        <h3 className="font-bold text-white flex items-center gap-2">
+          <History size={18} className="text-purple-400" /> History
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+          <X size={18} />
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 px-4 pt-3">Ctrl+Z to undo, Ctrl+Shift+Z to redo. Click an entry to jump to it.</p>
+      <ol className="flex-1 overflow-auto p-2 flex flex-col-reverse justify-end">
+        {history.entries.map((entry, i) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onJump(i)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm flex justify-between items-center gap-2 transition-colors ${
+                i === history.index
+                  ? 'bg-purple-600/30 text-white border border-purple-500/50'
+                  : i > history.index
+                    ? 'text-gray-600 hover:bg-gray-800'
+                    : 'text-gray-300 hover:bg-gray-800'
+              }`}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+};
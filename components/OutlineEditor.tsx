@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Beat, Project } from '../types';
+import { generateOutline } from '../services/geminiService';
+import { createBeat, getBeatScenes, moveBeat, orderScenesByBeats, removeBeat } from '../services/outline';
+import { ListTree, Loader2, Sparkles, Plus, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+
+interface OutlineEditorProps {
+  project: Project;
+  onUpdateProject: (p: Project, label: string) => void;
+  onUpdateLatestProject: (change: (latest: Project) => Project, label: string) => void; // For changes made after an await
+}
+
+const MAX_ACTS = 5;
+
+export const OutlineEditor: React.FC<OutlineEditorProps> = ({ project, onUpdateProject, onUpdateLatestProject }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const beats = project.beats || [];
+
+  const handleGenerate = async () => {
+    if (beats.length > 0 && !confirm("Replace the current outline? Existing scenes are kept but no longer belong to a beat.")) return;
+    setIsGenerating(true);
+    try {
+      const outline = await generateOutline(project.storyIdea, project.characters, project.type, project.aiSettings);
+      onUpdateLatestProject(
+        latest => ({ ...latest, beats: outline, scenes: latest.scenes.map(s => s.beatId ? { ...s, beatId: undefined } : s) }),
+        beats.length > 0 ? 'Regenerated outline' : 'Generated outline'
+      );
+    } catch (e) {
+      alert("Failed to generate an outline. Please try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updateBeat = (beat: Beat, changes: Partial<Beat>) => {
+    onUpdateProject(
+      { ...project, beats: beats.map(b => b.id === beat.id ? { ...b, ...changes } : b) },
+      `Edited beat "${beat.title}"`
+    );
+  };
+
+  // Scenes follow their beat, so the storyboard order stays in line with the outline
+  const handleMove = (index: number, toIndex: number) => {
+    const reordered = moveBeat(beats, index, toIndex);
+    if (reordered === beats) return;
+    onUpdateProject(
+      { ...project, beats: reordered, scenes: orderScenesByBeats(project.scenes, reordered) },
+      `Moved beat "${beats[index].title}"`
+    );
+  };
+
+  const handleDelete = (beat: Beat) => {
+    const sceneCount = getBeatScenes(project.scenes, beat.id).length;
+    const message = sceneCount > 0
+      ? `Delete beat "${beat.title}"? Its ${sceneCount} scenes are kept without a beat.`
+      : `Delete beat "${beat.title}"?`;
+    if (!confirm(message)) return;
+    onUpdateProject({ ...project, ...removeBeat(beats, project.scenes, beat.id) }, `Deleted beat "${beat.title}"`);
+  };
+
+  const handleAdd = () => {
+    const beat = createBeat(beats[beats.length - 1]?.act || 1);
+    onUpdateProject({ ...project, beats: [...beats, beat] }, 'Added beat');
+  };
+
+  const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-purple-500";
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-5 border border-gray-700 shadow-lg">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <ListTree size={18} className="text-purple-400" /> Outline
+        </h3>
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating || !project.storyIdea}
+          className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors"
+        >
+          {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+          {beats.length > 0 ? 'Regenerate' : 'Generate Outline'}
+        </button>
+      </div>
+
+      {beats.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Optional: plan acts and beats (hook, setup, conflict, twist, payoff) first, then scenes are written beat by beat.
+        </p>
+      ) : (
+        <ol className="space-y-3">
+          {beats.map((beat, index) => (
+            <li key={beat.id}>
+              {beat.act !== beats[index - 1]?.act && (
+                <p className="text-xs font-bold text-purple-400 uppercase tracking-wide mb-2">Act {beat.act}</p>
+              )}
+              <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={beat.title}
+                    onChange={e => updateBeat(beat, { title: e.target.value })}
+                    className={`${inputClass} font-bold`}
+                  />
+                  <select
+                    value={beat.act}
+                    onChange={e => updateBeat(beat, { act: Number(e.target.value) })}
+                    title="Act"
+                    className="bg-gray-900 border border-gray-700 rounded-lg px-1 py-1.5 text-xs text-gray-300 outline-none"
+                  >
+                    {Array.from({ length: MAX_ACTS }, (_, i) => i + 1).map(act => <option key={act} value={act}>Act {act}</option>)}
+                  </select>
+                  <div className="flex flex-col">
+                    <button onClick={() => handleMove(index, index - 1)} disabled={index === 0} title="Move up" className="text-gray-500 hover:text-white disabled:opacity-30">
+                      <ChevronUp size={14} />
+                    </button>
+                    <button onClick={() => handleMove(index, index + 1)} disabled={index === beats.length - 1} title="Move down" className="text-gray-500 hover:text-white disabled:opacity-30">
+                      <ChevronDown size={14} />
+                    </button>
+                  </div>
+                  <button onClick={() => handleDelete(beat)} title="Delete beat" className="text-gray-600 hover:text-red-400 p-1">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <textarea
+                  value={beat.summary}
+                  onChange={e => updateBeat(beat, { summary: e.target.value })}
+                  placeholder="What happens in this beat..."
+                  className={`${inputClass} h-16 resize-none`}
+                />
+                <p className="text-xs text-gray-500">{getBeatScenes(project.scenes, beat.id).length} scenes</p>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <button
+        onClick={handleAdd}
+        className="mt-3 w-full border border-dashed border-gray-700 hover:border-gray-500 text-gray-400 hover:text-white py-1.5 rounded-lg text-xs flex items-center justify-center gap-1.5 transition-colors"
+      >
+        <Plus size={14} /> Add beat
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Project } from '../types';
+import { PreviewJob, PreviewQueue, PreviewQueueState, MAX_CONCURRENCY, isActiveJob } from '../services/previewQueue';
+import { Images, Pause, Play, X, RotateCcw, Loader2, Clock, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+
+interface PreviewQueuePanelProps {
+  state: PreviewQueueState;
+  projects: Project[];
+  queue: PreviewQueue;
+}
+
+const STATUS_TEXT: Partial<Record<PreviewJob['status'], string>> = {
+  queued: 'Queued',
+  running: 'Generating…',
+  waiting: 'Rate limited, retrying soon',
+};
+
+export const PreviewQueuePanel: React.FC<PreviewQueuePanelProps> = ({ state, projects, queue }) => {
+  const [collapsed, setCollapsed] = useState(false);
+
+  const active = state.jobs.filter(isActiveJob);
+  const failed = state.jobs.filter(j => j.status === 'failed');
+  const counted = state.jobs.filter(j => j.status !== 'cancelled');
+  const done = counted.filter(j => j.status === 'done').length;
+  const projectName = (job: PreviewJob) => projects.find(p => p.id === job.projectId)?.name || 'Deleted project';
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 w-80 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl">
+      <div className="p-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <Images size={16} className="text-purple-400" />
+          <span className="text-sm font-bold text-white flex-1">
+            Previews {done}/{counted.length}
+            {state.paused && <span className="text-yellow-400 font-normal"> · Paused</span>}
+          </span>
+          <select
+            value={state.concurrency}
+            onChange={e => queue.setConcurrency(Number(e.target.value))}
+            title="Previews generated at the same time"
+            className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 outline-none"
+          >
+            {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}×</option>)}
+          </select>
+          <button
+            onClick={state.paused ? queue.resume : queue.pause}
+            title={state.paused ? 'Resume' : 'Pause (running previews still finish)'}
+            className="text-gray-400 hover:text-white p-1"
+          >
+            {state.paused ? <Play size={14} /> : <Pause size={14} />}
+          </button>
+          <button onClick={() => setCollapsed(!collapsed)} className="text-gray-400 hover:text-white p-1">
+            {collapsed ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+        </div>
+        <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+          <div className="h-full bg-purple-500 transition-all" style={{ width: `${counted.length ? (done / counted.length) * 100 : 0}%` }} />
+        </div>
+      </div>
+
+      {!collapsed && (
+        <div className="border-t border-gray-800 max-h-72 overflow-auto p-2 space-y-1">
+          {active.map(job => (
+            <div key={job.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-800 text-xs">
+              {job.status === 'running' ? <Loader2 size={12} className="animate-spin text-purple-400" /> : <Clock size={12} className="text-gray-500" />}
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-200 truncate">{job.label} <span className="text-gray-500">· {projectName(job)}</span></p>
+                <p className="text-gray-500">{STATUS_TEXT[job.status]}{job.attempts > 1 ? ` (attempt ${job.attempts})` : ''}</p>
+              </div>
+              <button onClick={() => queue.cancel(job.id)} title="Cancel" className="text-gray-500 hover:text-red-400 p-1">
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+
+          {failed.length > 0 && (
+            <>
+              <div className="flex justify-between items-center px-2 pt-2">
+                <span className="text-xs font-bold text-red-400 flex items-center gap-1">
+                  <AlertTriangle size={12} /> {failed.length} failed
+                </span>
+                <button onClick={queue.retryFailed} className="text-xs text-purple-400 hover:text-purple-300 flex items-center gap-1">
+                  <RotateCcw size={12} /> Retry all
+                </button>
+              </div>
+              {failed.map(job => (
+                <div key={job.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-800 text-xs">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-200 truncate">{job.label} <span className="text-gray-500">· {projectName(job)}</span></p>
+                    <p className="text-red-400/80 truncate" title={job.error}>{job.error}</p>
+                  </div>
+                  <button onClick={() => queue.retry(job.id)} title="Retry" className="text-gray-500 hover:text-white p-1">
+                    <RotateCcw size={12} />
+                  </button>
+                  <button onClick={() => queue.dismiss(job.id)} title="Dismiss" className="text-gray-500 hover:text-white p-1">
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+            </>
+          )}
+
+          <div className="flex justify-between px-2 pt-2">
+            <button
+              onClick={() => queue.cancelAll()}
+              disabled={active.length === 0}
+              className="text-xs text-gray-500 hover:text-red-400 disabled:opacity-40 disabled:hover:text-gray-500"
+            >
+              Cancel all
+            </button>
+            <button onClick={queue.clearFinished} className="text-xs text-gray-500 hover:text-white">
+              Clear finished
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,43 +1,122 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Project, VideoType } from '../types';
-import { Film, Clapperboard, Calendar, ChevronRight } from 'lucide-react';
+import { Film, Clapperboard, Calendar, ChevronRight, Copy, Archive, ArchiveRestore, Trash2, Tag, Plus, X } from 'lucide-react';
 
 interface ProjectCardProps {
   project: Project;
+  styleName: string;
+  episodeLabel?: string; // e.g. "Ep 3", for episodes of a series
+  isSelected: boolean;
+  isSelecting: boolean; // Some project is selected, so a click selects instead of opening
   onSelect: (project: Project) => void;
+  onToggleSelected: (id: string) => void;
+  onDuplicate: (project: Project) => void;
+  onArchive: (project: Project, archived: boolean) => void;
   onDelete: (id: string) => void;
+  onAddTag: (project: Project, tag: string) => void;
+  onRemoveTag: (project: Project, tag: string) => void;
+  onFilterByTag: (tag: string) => void;
 }
 
-export const ProjectCard: React.FC<ProjectCardProps> = ({ project, onSelect, onDelete }) => {
+export const ProjectCard: React.FC<ProjectCardProps> = ({
+  project, styleName, episodeLabel, isSelected, isSelecting,
+  onSelect, onToggleSelected, onDuplicate, onArchive, onDelete, onAddTag, onRemoveTag, onFilterByTag
+}) => {
+  const [newTag, setNewTag] = useState<string | null>(null); // Open tag input
+
+  const submitTag = () => {
+    if (newTag?.trim()) onAddTag(project, newTag);
+    setNewTag(null);
+  };
+
+  const actionClass = "text-gray-500 hover:text-white p-2 hover:bg-gray-700 rounded-full transition-colors";
+
   return (
-    <div 
-      className="bg-gray-800 border border-gray-700 rounded-xl p-6 hover:border-purple-500 transition-all cursor-pointer group shadow-lg"
-      onClick={() => onSelect(project)}
+    <div
+      className={`bg-gray-800 border rounded-xl p-6 hover:border-purple-500 transition-all cursor-pointer group shadow-lg ${
+        isSelected ? 'border-purple-500 ring-1 ring-purple-500' : 'border-gray-700'
+      } ${project.archived ? 'opacity-75' : ''}`}
+      onClick={() => isSelecting ? onToggleSelected(project.id) : onSelect(project)}
     >
       <div className="flex justify-between items-start mb-4">
-        <div className="flex items-center gap-3">
-          <div className={`p-3 rounded-lg ${project.type === VideoType.SHORT ? 'bg-pink-500/20 text-pink-400' : 'bg-blue-500/20 text-blue-400'}`}>
+        <div className="flex items-center gap-3 min-w-0">
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onClick={e => e.stopPropagation()}
+            onChange={() => onToggleSelected(project.id)}
+            title="Select"
+            className={`accent-purple-500 w-4 h-4 shrink-0 cursor-pointer ${isSelecting ? '' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}
+          />
+          <div className={`p-3 rounded-lg shrink-0 ${project.type === VideoType.SHORT ? 'bg-pink-500/20 text-pink-400' : 'bg-blue-500/20 text-blue-400'}`}>
             {project.type === VideoType.SHORT ? <Clapperboard size={24} /> : <Film size={24} />}
           </div>
-          <div>
-            <h3 className="text-xl font-bold text-white group-hover:text-purple-400 transition-colors">{project.name}</h3>
-            <span className="text-xs text-gray-400 uppercase tracking-wider">{project.style}</span>
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-white group-hover:text-purple-400 transition-colors truncate">{project.name}</h3>
+            <span className="text-xs text-gray-400 uppercase tracking-wider">
+              {episodeLabel && <span className="text-purple-400 font-bold mr-2">{episodeLabel}</span>}
+              {styleName}
+            </span>
           </div>
         </div>
-        <button 
-          onClick={(e) => { e.stopPropagation(); onDelete(project.id); }}
-          className="text-gray-500 hover:text-red-400 p-2 hover:bg-gray-700 rounded-full transition-colors"
-        >
-          ✕
-        </button>
+        <div className="flex items-center shrink-0" onClick={e => e.stopPropagation()}>
+          <button onClick={() => onDuplicate(project)} title="Duplicate" className={actionClass}>
+            <Copy size={16} />
+          </button>
+          {project.archived ? (
+            <>
+              <button onClick={() => onArchive(project, false)} title="Restore" className={actionClass}>
+                <ArchiveRestore size={16} />
+              </button>
+              <button onClick={() => onDelete(project.id)} title="Delete permanently" className="text-gray-500 hover:text-red-400 p-2 hover:bg-gray-700 rounded-full transition-colors">
+                <Trash2 size={16} />
+              </button>
+            </>
+          ) : (
+            <button onClick={() => onArchive(project, true)} title="Archive" className={actionClass}>
+              <Archive size={16} />
+            </button>
+          )}
+        </div>
       </div>
 
-      <div className="space-y-2 mb-6">
+      <div className="space-y-2 mb-4">
         <p className="text-gray-400 text-sm line-clamp-2 min-h-[2.5rem]">
           {project.storyIdea || "No story idea yet..."}
         </p>
       </div>
 
+      <div className="flex flex-wrap items-center gap-1.5 mb-4 min-h-[1.75rem]" onClick={e => e.stopPropagation()}>
+        {(project.tags || []).map(tag => (
+          <span key={tag} className="group/tag bg-gray-900 border border-gray-700 text-gray-300 text-xs rounded-full pl-2 pr-1 py-0.5 flex items-center gap-1">
+            <button onClick={() => onFilterByTag(tag)} title="Show projects with this tag" className="flex items-center gap-1 hover:text-purple-400">
+              <Tag size={10} /> {tag}
+            </button>
+            <button onClick={() => onRemoveTag(project, tag)} title="Remove tag" className="text-gray-600 hover:text-red-400 opacity-0 group-hover/tag:opacity-100">
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        {newTag === null ? (
+          <button onClick={() => setNewTag('')} className="text-xs text-gray-600 hover:text-purple-400 flex items-center gap-0.5 px-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Plus size={10} /> Tag
+          </button>
+        ) : (
+          <input
+            autoFocus
+            value={newTag}
+            onChange={e => setNewTag(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') submitTag();
+              if (e.key === 'Escape') setNewTag(null);
+            }}
+            onBlur={() => setNewTag(null)}
+            placeholder="New tag"
+            className="bg-gray-900 border border-gray-700 rounded-full px-2 py-0.5 text-xs text-white outline-none focus:ring-1 focus:ring-purple-500 w-24"
+          />
+        )}
+      </div>
+
       <div className="flex justify-between items-center text-sm text-gray-500 border-t border-gray-700 pt-4">
         <div className="flex items-center gap-4">
           <span className="flex items-center gap-1">
@@ -47,10 +126,13 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({ project, onSelect, onD
             <span className="font-semibold text-gray-300">{project.scenes.length}</span> Scenes
           </span>
         </div>
-        <div className="flex items-center gap-1 text-purple-400 font-medium opacity-0 group-hover:opacity-100 transition-opacity">
-          Open Project <ChevronRight size={16} />
+        <span className="flex items-center gap-1 text-xs group-hover:hidden" title={`Created ${new Date(project.createdAt).toLocaleString()}`}>
+          <Calendar size={12} /> {new Date(project.updatedAt).toLocaleDateString()}
+        </span>
+        <div className="hidden group-hover:flex items-center gap-1 text-purple-400 font-medium">
+          {isSelecting ? (isSelected ? 'Deselect' : 'Select') : <>Open Project <ChevronRight size={16} /></>}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
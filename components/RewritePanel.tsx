@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Project, Scene, StylePreset } from '../types';
+import { rewriteScenes } from '../services/geminiService';
+import { replaceScenesById } from '../services/sceneOperations';
+import { diffScenes, DiffField, SceneDiffStatus } from '../services/snapshots';
+import { getSceneCharacters } from '../services/characters';
+import { scriptToText } from '../services/scriptLines';
+import { formatDuration } from '../services/durations';
+import { Sparkles, X, Loader2, Check, RotateCcw, ArrowLeft } from 'lucide-react';
+
+interface RewritePanelProps {
+  project: Project;
+  style: StylePreset;
+  initialSceneId: string;
+  onUpdateLatestProject: (change: (latest: Project) => Project, label: string) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = [
+  'Make this funnier',
+  'Add a reaction shot',
+  'Split into a close-up and a wide shot',
+  'Tighten the dialogue',
+  'Raise the tension',
+];
+
+const STATUS_STYLES: Record<SceneDiffStatus, string> = {
+  added: 'border-green-500/50',
+  removed: 'border-red-500/50',
+  changed: 'border-yellow-500/50',
+  unchanged: 'border-gray-700',
+};
+
+const rangeLabel = (start: number, end: number) => start === end ? `scene ${start + 1}` : `scenes ${start + 1}–${end + 1}`;
+
+export const RewritePanel: React.FC<RewritePanelProps> = ({ project, style, initialSceneId, onUpdateLatestProject, onClose }) => {
+  // The range is kept by scene id so edits elsewhere in the storyboard don't shift it
+  const [startId, setStartId] = useState(initialSceneId);
+  const [endId, setEndId] = useState(initialSceneId);
+  const [instruction, setInstruction] = useState('');
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [proposal, setProposal] = useState<Scene[] | null>(null);
+  const [sourceIds, setSourceIds] = useState<string[]>([]); // The scenes the proposal was written for, in order
+
+  const start = project.scenes.findIndex(s => s.id === startId);
+  const end = project.scenes.findIndex(s => s.id === endId);
+  const isRangeValid = start !== -1 && end !== -1 && start <= end;
+
+  const handleRewrite = async () => {
+    if (!isRangeValid || !instruction.trim()) return;
+    setIsRewriting(true);
+    const ids = project.scenes.slice(start, end + 1).map(s => s.id);
+    try {
+      const rewritten = await rewriteScenes(
+        project.scenes, start, end, instruction.trim(),
+        project.characters, style, project.type, project.aiSettings
+      );
+      setSourceIds(ids);
+      setProposal(rewritten);
+    } catch (e) {
+      alert("Failed to rewrite scenes. Please try again.");
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!proposal) return;
+    if (!project.scenes.some(s => sourceIds.includes(s.id))) {
+      alert("The selected scenes were removed while the rewrite was running.");
+      return;
+    }
+    // Matched by id against the latest storyboard, which may have changed since the rewrite started
+    onUpdateLatestProject(
+      latest => ({ ...latest, scenes: replaceScenesById(latest.scenes, sourceIds, proposal) }),
+      `AI rewrite of ${rangeLabel(start, end)}`
+    );
+    onClose();
+  };
+
+  const renderSceneCell = (scene: Scene | undefined, changed: DiffField[], status: SceneDiffStatus) => {
+    if (!scene) return <div className="text-xs text-gray-600 italic p-3">—</div>;
+    const highlight = (field: DiffField) => changed.includes(field) ? 'bg-yellow-500/10 text-yellow-100' : 'text-gray-300';
+    const cast = getSceneCharacters(scene, project.characters).map(c => c.name).join(', ');
+    return (
+      <div className={`bg-gray-900 border rounded-lg p-3 text-xs space-y-1 ${STATUS_STYLES[status]}`}>
+        <p className={`rounded px-1 ${highlight('duration')}`}><span className="text-gray-500">Duration:</span> {formatDuration(scene.duration)}</p>
+        <p className={`rounded px-1 ${highlight('script')}`}><span className="text-gray-500">Script:</span> <span className="whitespace-pre-line">{scriptToText(scene.script, project.characters)}</span></p>
+        <p className={`rounded px-1 ${highlight('visualPrompt')}`}><span className="text-gray-500">Prompt:</span> {scene.visualPrompt}</p>
+        {cast && <p className="px-1 text-gray-400"><span className="text-gray-500">Cast:</span> {cast}</p>}
+      </div>
+    );
+  };
+
+  const sceneOption = (scene: Scene) => (
+    <option key={scene.id} value={scene.id}>
+      Scene {scene.sceneNumber}{scene.script.length > 0 ? ` – ${scriptToText(scene.script, project.characters, ' ').slice(0, 40)}` : ''}
+    </option>
+  );
+  const selectClass = "flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-1 focus:ring-purple-500";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] p-6 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Sparkles className="text-purple-400" size={20} /> Rewrite with AI
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        {proposal && isRangeValid ? (
+          <div className="flex flex-col min-h-0 flex-1">
+            <div className="flex items-center gap-3 mb-4">
+              <button onClick={() => setProposal(null)} title="Back to the instruction" className="text-gray-400 hover:text-white p-1">
+                <ArrowLeft size={18} />
+              </button>
+              <p className="text-sm text-gray-300 flex-1">
+                “{instruction}” · {end - start + 1} scene{end === start ? '' : 's'} → {proposal.length} scene{proposal.length === 1 ? '' : 's'}
+              </p>
+              <button
+                onClick={handleRewrite}
+                disabled={isRewriting}
+                className="text-gray-400 hover:text-white disabled:opacity-50 text-sm flex items-center gap-1.5 px-3 py-1.5"
+              >
+                {isRewriting ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />} Try again
+              </button>
+              <button onClick={() => setProposal(null)} className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold px-4 py-1.5 rounded-lg flex items-center gap-1.5">
+                <X size={14} /> Reject
+              </button>
+              <button onClick={handleAccept} className="bg-purple-600 hover:bg-purple-500 text-white text-sm font-bold px-4 py-1.5 rounded-lg flex items-center gap-1.5">
+                <Check size={14} /> Accept
+              </button>
+            </div>
+            <div className="grid grid-cols-[3rem_1fr_1fr] gap-3 text-xs font-bold text-gray-500 uppercase mb-2">
+              <span />
+              <span>Current</span>
+              <span>Proposed</span>
+            </div>
+            <div className="overflow-auto space-y-3 pr-1">
+              {diffScenes(project.scenes.slice(start, end + 1), proposal).map(diff => (
+                <div key={diff.index} className="grid grid-cols-[3rem_1fr_1fr] gap-3 items-start">
+                  <div className="text-xs font-bold text-gray-500 pt-3">#{start + diff.index + 1}</div>
+                  {renderSceneCell(diff.before, diff.changedFields, diff.status)}
+                  {renderSceneCell(diff.after, diff.changedFields, diff.status)}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <label className="text-sm text-gray-400 whitespace-nowrap">From</label>
+              <select
+                value={startId}
+                onChange={e => {
+                  setStartId(e.target.value);
+                  // Keep the range the right way round
+                  if (project.scenes.findIndex(s => s.id === e.target.value) > end) setEndId(e.target.value);
+                }}
+                className={selectClass}
+              >
+                {project.scenes.map(sceneOption)}
+              </select>
+              <label className="text-sm text-gray-400 whitespace-nowrap">to</label>
+              <select value={endId} onChange={e => setEndId(e.target.value)} className={selectClass}>
+                {project.scenes.slice(Math.max(start, 0)).map(sceneOption)}
+              </select>
+            </div>
+
+            <textarea
+              value={instruction}
+              onChange={e => setInstruction(e.target.value)}
+              placeholder='What should change? e.g. "add a reaction shot from Mia"'
+              className="w-full h-28 bg-gray-900 border border-gray-700 rounded-lg p-3 text-sm text-white focus:ring-1 focus:ring-purple-500 outline-none"
+            />
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map(suggestion => (
+                <button
+                  key={suggestion}
+                  onClick={() => setInstruction(suggestion)}
+                  className="text-xs px-3 py-1 rounded-full border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 transition-colors"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              The scenes around the selection and the character sheet are sent along so the rewrite keeps continuity.
+              Nothing changes until you accept the result.
+            </p>
+
+            <button
+              onClick={handleRewrite}
+              disabled={isRewriting || !isRangeValid || !instruction.trim()}
+              className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white py-3 rounded-lg font-bold shadow-lg flex justify-center items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isRewriting ? <Loader2 className="animate-spin" /> : <Sparkles size={18} />}
+              Rewrite {isRangeValid ? rangeLabel(start, end) : 'selection'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
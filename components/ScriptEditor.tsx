@@ -0,0 +1,74 @@
+import React from 'react';
+import { Character, ScriptLine, ScriptLineType } from '../types';
+import { SCRIPT_LINE_TYPES, createScriptLine } from '../services/scriptLines';
+import { Plus, X } from 'lucide-react';
+
+interface ScriptEditorProps {
+  lines: ScriptLine[];
+  characters: Character[];
+  defaultSpeakerId?: string; // Speaker for new dialogue lines
+  onChange: (lines: ScriptLine[]) => void;
+}
+
+const TYPE_STYLES: Record<ScriptLineType, string> = {
+  dialogue: 'border-blue-500/50',
+  voiceover: 'border-teal-500/50',
+  text: 'border-yellow-500/50',
+  action: 'border-gray-600',
+};
+
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ lines, characters, defaultSpeakerId, onChange }) => {
+  const updateLine = (id: string, changes: Partial<ScriptLine>) => {
+    onChange(lines.map(line => line.id === id ? { ...line, ...changes } : line));
+  };
+
+  const changeType = (line: ScriptLine, type: ScriptLineType) => {
+    updateLine(line.id, { type, characterId: type === 'dialogue' ? line.characterId || defaultSpeakerId : undefined });
+  };
+
+  const selectClass = "bg-gray-900 border border-gray-700 rounded px-1.5 py-1 text-xs text-gray-300 outline-none focus:ring-1 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-2">
+      {lines.map(line => (
+        <div key={line.id} className={`flex items-start gap-2 border-l-2 pl-2 ${TYPE_STYLES[line.type]}`}>
+          <select value={line.type} onChange={e => changeType(line, e.target.value as ScriptLineType)} className={selectClass}>
+            {SCRIPT_LINE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+          </select>
+          {line.type === 'dialogue' && (
+            <select
+              value={line.characterId || ''}
+              onChange={e => updateLine(line.id, { characterId: e.target.value || undefined })}
+              title="Speaker"
+              className={selectClass}
+            >
+              <option value="">Unknown</option>
+              {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          )}
+          <textarea
+            value={line.text}
+            onChange={e => updateLine(line.id, { text: e.target.value })}
+            rows={line.text.length > 60 ? 2 : 1}
+            placeholder={line.type === 'action' ? 'What happens...' : line.type === 'text' ? 'Text shown on screen...' : 'What is said...'}
+            className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 resize-none focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button onClick={() => onChange(lines.filter(l => l.id !== line.id))} title="Remove line" className="text-gray-600 hover:text-red-400 p-1">
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-1.5">
+        {SCRIPT_LINE_TYPES.map(t => (
+          <button
+            key={t.id}
+            onClick={() => onChange([...lines, createScriptLine(t.id, '', defaultSpeakerId)])}
+            className="text-xs px-2 py-0.5 rounded-full border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 flex items-center gap-1 transition-colors"
+          >
+            <Plus size={10} /> {t.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Character, Project, Series, StylePreset } from '../types';
+import { getEpisodes, nextEpisodeNumber, removeFromSeries, renumberEpisodes } from '../services/series';
+import { getStylePreset } from '../services/stylePresets';
+import { Tv, Save, Trash2, ArrowUp, ArrowDown, RefreshCw, ExternalLink, Unlink, Loader2, X } from 'lucide-react';
+
+interface SeriesPanelProps {
+  series: Series; // Not saved yet when it's new
+  isNew: boolean;
+  styles: StylePreset[];
+  library: Character[]; // The cast library the series cast is picked from
+  projects: Project[];
+  standaloneProjects: Project[]; // Projects that can be added as episodes
+  summarizingIds: string[]; // Episodes whose summary is being written
+  onSave: (series: Series) => void;
+  onDelete: (series: Series) => void;
+  onUpdateEpisode: (project: Project, label: string) => void;
+  onSummarize: (project: Project) => void;
+  onOpenEpisode: (project: Project) => void;
+  onClose: () => void;
+}
+
+export const SeriesPanel: React.FC<SeriesPanelProps> = ({
+  series, isNew, styles, library, projects, standaloneProjects, summarizingIds,
+  onSave, onDelete, onUpdateEpisode, onSummarize, onOpenEpisode, onClose
+}) => {
+  const [draft, setDraft] = useState<Series>(series);
+  const isDirty = isNew || JSON.stringify(draft) !== JSON.stringify(series);
+  const episodes = isNew ? [] : getEpisodes(projects, series.id);
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      alert("Give the series a name.");
+      return;
+    }
+    const saved = { ...draft, name };
+    setDraft(saved);
+    onSave(saved);
+  };
+
+  const handleDelete = () => {
+    const count = episodes.length;
+    const inUse = count > 0 ? `\n\nIts ${count} episode${count === 1 ? '' : 's'} will be kept as standalone projects.` : '';
+    if (!confirm(`Delete the series "${series.name}"?${inUse}`)) return;
+    onDelete(series);
+  };
+
+  const toggleCast = (id: string) => {
+    setDraft(d => ({ ...d, castIds: d.castIds.includes(id) ? d.castIds.filter(c => c !== id) : [...d.castIds, id] }));
+  };
+
+  const moveEpisode = (index: number, offset: number) => {
+    const reordered = [...episodes];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    renumberEpisodes(reordered).forEach(p => onUpdateEpisode(p, `Moved to episode ${p.episodeNumber}`));
+  };
+
+  const removeEpisode = (episode: Project) => {
+    if (!confirm(`Remove "${episode.name}" from ${series.name}? It will be kept as a standalone project.`)) return;
+    onUpdateEpisode(removeFromSeries(episode), `Removed from ${series.name}`);
+    renumberEpisodes(episodes.filter(p => p.id !== episode.id)).forEach(p => onUpdateEpisode(p, `Moved to episode ${p.episodeNumber}`));
+  };
+
+  const addEpisode = (projectId: string) => {
+    const project = standaloneProjects.find(p => p.id === projectId);
+    if (!project) return;
+    onUpdateEpisode({ ...project, seriesId: series.id, episodeNumber: nextEpisodeNumber(projects, series.id) }, `Added to ${series.name}`);
+  };
+
+  const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-1 focus:ring-purple-500 resize-none";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] p-6 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Tv className="text-purple-400" size={20} /> {isNew ? 'New Series' : series.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-6 min-h-0 flex-1">
+          <div className="w-96 shrink-0 overflow-y-auto pr-1 space-y-4">
+            <div>
+              <label className="block text-gray-400 text-xs font-bold mb-1">Name</label>
+              <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Bella & Mia" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-gray-400 text-xs font-bold mb-1">Series bible</label>
+              <textarea
+                value={draft.bible}
+                onChange={e => setDraft({ ...draft, bible: e.target.value })}
+                rows={8}
+                placeholder="Premise, setting and world rules, tone, running gags, things that must never happen..."
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 mt-1">Sent along with every episode's idea and scene generation.</p>
+            </div>
+            <div>
+              <label className="block text-gray-400 text-xs font-bold mb-1">Style</label>
+              <select value={getStylePreset(styles, draft.styleId).id} onChange={e => setDraft({ ...draft, styleId: e.target.value })} className={inputClass}>
+                {styles.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-400 text-xs font-bold mb-1">Recurring cast</label>
+              {library.length === 0 ? (
+                <p className="text-xs text-gray-500">Add characters to the cast library to share them between episodes.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {library.map(entry => (
+                    <button
+                      key={entry.id}
+                      onClick={() => toggleCast(entry.id)}
+                      className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                        draft.castIds.includes(entry.id) ? 'bg-purple-600/30 border-purple-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {entry.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-1">New episodes start with the series style and cast.</p>
+            </div>
+
+            <div className="flex items-center gap-2 pt-2 border-t border-gray-700">
+              <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors"
+              >
+                <Save size={14} /> {isNew ? 'Create Series' : 'Save'}
+              </button>
+              {!isNew && (
+                <button onClick={handleDelete} className="ml-auto text-gray-400 hover:text-red-400 px-3 py-2 text-sm flex items-center gap-1.5">
+                  <Trash2 size={14} /> Delete
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto pr-1 flex flex-col min-h-0">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-sm font-bold text-gray-300">Episodes</h3>
+              {!isNew && standaloneProjects.length > 0 && (
+                <select
+                  value=""
+                  onChange={e => addEpisode(e.target.value)}
+                  className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-300 outline-none"
+                >
+                  <option value="">Add existing project…</option>
+                  {standaloneProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              )}
+            </div>
+            {episodes.length === 0 && (
+              <p className="text-sm text-gray-500 bg-gray-900/50 border border-dashed border-gray-700 rounded-lg p-6 text-center">
+                {isNew ? 'Create the series, then add episodes from the dashboard.' : 'No episodes yet.'}
+              </p>
+            )}
+            <div className="space-y-3">
+              {episodes.map((episode, i) => {
+                const isSummarizing = summarizingIds.includes(episode.id);
+                return (
+                  <div key={episode.id} className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs font-bold text-purple-400 shrink-0">Ep {episode.episodeNumber}</span>
+                      <span className="text-sm text-white font-medium truncate">{episode.name}</span>
+                      <div className="ml-auto flex items-center gap-1 text-gray-500 shrink-0">
+                        <button onClick={() => moveEpisode(i, -1)} disabled={i === 0} title="Move earlier" className="p-1 hover:text-white disabled:opacity-30">
+                          <ArrowUp size={14} />
+                        </button>
+                        <button onClick={() => moveEpisode(i, 1)} disabled={i === episodes.length - 1} title="Move later" className="p-1 hover:text-white disabled:opacity-30">
+                          <ArrowDown size={14} />
+                        </button>
+                        <button
+                          onClick={() => onSummarize(episode)}
+                          disabled={isSummarizing || episode.scenes.length === 0}
+                          title={episode.scenes.length === 0 ? 'Generate the scenes first' : 'Rewrite the summary from the scenes'}
+                          className="p-1 hover:text-white disabled:opacity-30"
+                        >
+                          {isSummarizing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                        </button>
+                        <button onClick={() => onOpenEpisode(episode)} title="Open episode" className="p-1 hover:text-white">
+                          <ExternalLink size={14} />
+                        </button>
+                        <button onClick={() => removeEpisode(episode)} title="Remove from the series" className="p-1 hover:text-red-400">
+                          <Unlink size={14} />
+                        </button>
+                      </div>
+                    </div>
+                    <p className={`text-xs ${episode.summary ? 'text-gray-300' : 'text-gray-500 italic'}`}>
+                      {episode.summary || `No summary yet; later episodes see the story idea instead.${episode.storyIdea ? ` "${episode.storyIdea}"` : ''}`}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Project, ProjectSnapshot, Scene } from '../types';
+import { formatDuration } from '../services/durations';
+import { addSnapshot, restoreSnapshot, diffScenes, cherryPickScene, DiffField } from '../services/snapshots';
+import { scriptToText } from '../services/scriptLines';
+import { Bookmark, BookmarkPlus, GitCompare, RotateCcw, Trash2, X, ArrowLeft, ArrowRight } from 'lucide-react';
+
+interface SnapshotsPanelProps {
+  project: Project;
+  onUpdateProject: (p: Project, label: string) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const STATUS_STYLES = {
+  added: 'border-green-500/50',
+  removed: 'border-red-500/50',
+  changed: 'border-yellow-500/50',
+  unchanged: 'border-gray-700',
+};
+
+export const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ project, onUpdateProject, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [compare, setCompare] = useState<{ leftId: string; rightId: string } | null>(null);
+  const snapshots = project.snapshots || [];
+
+  const handleSave = () => {
+    const name = newName.trim() || `Version ${snapshots.length + 1}`;
+    onUpdateProject(addSnapshot(project, name), `Saved version "${name}"`);
+    setNewName('');
+  };
+
+  const handleRestore = (snapshot: ProjectSnapshot) => {
+    if (!confirm(`Restore "${snapshot.name}"? The current storyboard is replaced (you can undo this).`)) return;
+    onUpdateProject(restoreSnapshot(project, snapshot), `Restored version "${snapshot.name}"`);
+  };
+
+  const handleDelete = (snapshot: ProjectSnapshot) => {
+    if (!confirm(`Delete version "${snapshot.name}"?`)) return;
+    if (compare && (compare.leftId === snapshot.id || compare.rightId === snapshot.id)) setCompare(null);
+    onUpdateProject({ ...project, snapshots: snapshots.filter(s => s.id !== snapshot.id) }, `Deleted version "${snapshot.name}"`);
+  };
+
+  const scenesFor = (id: string) => id === CURRENT ? project.scenes : snapshots.find(s => s.id === id)?.scenes || [];
+  const nameFor = (id: string) => id === CURRENT ? 'Current' : snapshots.find(s => s.id === id)?.name || '';
+
+  const renderSceneCell = (scene: Scene | undefined, changed: DiffField[], status: keyof typeof STATUS_STYLES) => {
+    if (!scene) return <div className="text-xs text-gray-600 italic p-3">—</div>;
+    const highlight = (field: DiffField) => changed.includes(field) ? 'bg-yellow-500/10 text-yellow-100' : 'text-gray-300';
+    return (
+      <div className={`bg-gray-900 border rounded-lg p-3 text-xs space-y-1 ${STATUS_STYLES[status]}`}>
+        <p className={`rounded px-1 ${highlight('duration')}`}><span className="text-gray-500">Duration:</span> {formatDuration(scene.duration)}</p>
+        <p className={`rounded px-1 ${highlight('script')}`}><span className="text-gray-500">Script:</span> <span className="whitespace-pre-line">{scriptToText(scene.script, project.characters)}</span></p>
+        <p className={`rounded px-1 ${highlight('visualPrompt')}`}><span className="text-gray-500">Prompt:</span> {scene.visualPrompt}</p>
+      </div>
+    );
+  };
+
+  const renderCompare = () => {
+    if (!compare) return null;
+    const diffs = diffScenes(scenesFor(compare.leftId), scenesFor(compare.rightId));
+    const canPick = compare.rightId === CURRENT && compare.leftId !== CURRENT;
+    const options = [...snapshots.map(s => ({ id: s.id, name: s.name })), { id: CURRENT, name: 'Current' }];
+    const select = (value: string, onChange: (id: string) => void) => (
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:ring-1 focus:ring-purple-500"
+      >
+        {options.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+      </select>
+    );
+
+    return (
+      <div className="flex flex-col min-h-0 flex-1">
+        <div className="flex items-center gap-3 mb-4">
+          <button onClick={() => setCompare(null)} className="text-gray-400 hover:text-white p-1">
+            <ArrowLeft size={18} />
+          </button>
+          {select(compare.leftId, leftId => setCompare({ ...compare, leftId }))}
+          <ArrowRight size={16} className="text-gray-500" />
+          {select(compare.rightId, rightId => setCompare({ ...compare, rightId }))}
+          <span className="text-xs text-gray-500 ml-auto">
+            {diffs.filter(d => d.status !== 'unchanged').length} of {diffs.length} scenes differ
+          </span>
+        </div>
+        <div className="overflow-auto space-y-3 pr-1">
+          {diffs.map(diff => (
+            <div key={diff.index} className="grid grid-cols-[3rem_1fr_1fr] gap-3 items-start">
+              <div className="text-xs font-bold text-gray-500 pt-3">#{diff.index + 1}</div>
+              <div className="relative group">
+                {renderSceneCell(diff.before, diff.changedFields, diff.status)}
+                {canPick && diff.before && diff.status !== 'unchanged' && (
+                  <button
+                    onClick={() => onUpdateProject(
+                      { ...project, scenes: cherryPickScene(project.scenes, diff.before!, diff.index, project.characters) },
+                      `Restored scene ${diff.index + 1} from "${nameFor(compare.leftId)}"`
+                    )}
+                    className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 bg-purple-600 hover:bg-purple-500 text-white text-xs px-2 py-1 rounded flex items-center gap-1 transition-opacity"
+                  >
+                    <ArrowRight size={12} /> Use in current
+                  </button>
+                )}
+              </div>
+              {renderSceneCell(diff.after, diff.changedFields, diff.status)}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] p-6 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Bookmark className="text-purple-400" size={20} /> Versions
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        {compare ? renderCompare() : (
+          <>
+            <div className="flex gap-2 mb-6">
+              <input
+                type="text"
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleSave()}
+                placeholder={`Version name, e.g. "v1 client draft"`}
+                className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white focus:ring-1 focus:ring-purple-500 outline-none text-sm"
+              />
+              <button
+                onClick={handleSave}
+                className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 whitespace-nowrap"
+              >
+                <BookmarkPlus size={16} /> Save Version
+              </button>
+            </div>
+
+            <div className="overflow-auto space-y-2">
+              {[...snapshots].reverse().map(snapshot => (
+                <div key={snapshot.id} className="bg-gray-900 border border-gray-700 rounded-lg p-3 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium truncate">{snapshot.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.scenes.length} scenes
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setCompare({ leftId: snapshot.id, rightId: CURRENT })}
+                    className="text-gray-400 hover:text-white text-xs flex items-center gap-1 px-2 py-1"
+                  >
+                    <GitCompare size={14} /> Compare
+                  </button>
+                  <button
+                    onClick={() => handleRestore(snapshot)}
+                    className="text-gray-400 hover:text-white text-xs flex items-center gap-1 px-2 py-1"
+                  >
+                    <RotateCcw size={14} /> Restore
+                  </button>
+                  <button onClick={() => handleDelete(snapshot)} className="text-gray-500 hover:text-red-400 p-1">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              {snapshots.length === 0 && (
+                <p className="text-center text-gray-500 py-8 text-sm">
+                  No saved versions yet. Versions are also saved automatically before scenes are regenerated.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,86 +1,183 @@
 import React, { useState } from 'react';
-import { Scene, Project } from '../types';
-import { generateScenePreview } from '../services/geminiService';
-import { PlayCircle, Image as ImageIcon, Edit2, Save, RefreshCw, Wand2, Check, Download, Loader2 } from 'lucide-react';
+import { Scene, Project, AspectRatio, Character, Beat, StylePreset } from '../types';
+import { PlayCircle, Image as ImageIcon, Edit2, Save, RefreshCw, Wand2, Check, Download, Loader2, Package, Plus, Copy, Scissors, Merge, Trash2, GripVertical, X, Smartphone, Users, Images, AlertTriangle, Sparkles, ListTree, ClipboardCopy, Printer, Clapperboard, Play } from 'lucide-react';
 import JSZip from 'jszip';
+import { downloadBlob, parseDataUrl, sceneImageFileName, toFileSlug } from '../services/fileUtils';
+import { exportProjectBundle, BUNDLE_EXTENSION } from '../services/bundleService';
+import { formatDuration, totalDuration } from '../services/durations';
+import { getBeatScenes } from '../services/outline';
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIOS, SHORTS_UI_REGIONS, getAspectRatio, isPortrait, toCssAspectRatio } from '../services/framing';
+import { getSceneCharacters } from '../services/characters';
+import { PROMPT_FORMATTERS, PromptTarget, formatScenePrompt, formattedPromptToText, getPromptFormatter, loadPromptTarget, savePromptTarget } from '../services/promptFormats';
+import { PreviewJob, PreviewJobRequest, isActiveJob } from '../services/previewQueue';
+import { Timeline } from './Timeline';
+import { RewritePanel } from './RewritePanel';
+import { ScriptEditor } from './ScriptEditor';
+import { getScriptSpeakerIds, getSpeakerName, hasScript, isSameScript, scriptToText } from '../services/scriptLines';
+import { ExportPanel } from './ExportPanel';
+import { AnimaticPlayer } from './AnimaticPlayer';
+import { buildSubtitles } from '../services/subtitles';
+import { TIMELINE_FORMATS, buildTimeline } from '../services/timelineExport';
+import { insertBlankScene, deleteScene, duplicateScene, moveScene, splitScene, mergeWithNext } from '../services/sceneOperations';
 
 interface StoryboardProps {
   project: Project;
-  onUpdateProject: (p: Project) => void;
+  style: StylePreset; // The project's style preset
+  onUpdateProject: (p: Project, label: string) => void;
+  onUpdateLatestProject: (change: (latest: Project) => Project, label: string) => void; // For changes made after an await
+  previewJobs: PreviewJob[]; // This project's jobs in the preview queue
+  onQueuePreviews: (requests: PreviewJobRequest[]) => void;
+  onRegenerateBeat: (beat: Beat) => void;
+  isGeneratingScenes: boolean;
 }
 
-export const Storyboard: React.FC<StoryboardProps> = ({ project, onUpdateProject }) => {
+export const Storyboard: React.FC<StoryboardProps> = ({ project, style, onUpdateProject, onUpdateLatestProject, previewJobs, onQueuePreviews, onRegenerateBeat, isGeneratingScenes }) => {
   const [editingSceneId, setEditingSceneId] = useState<string | null>(null);
-  const [editPromptValue, setEditPromptValue] = useState("");
-  const [loadingImages, setLoadingImages] = useState<Record<string, boolean>>({});
+  const [editDraft, setEditDraft] = useState<Pick<Scene, 'script' | 'visualPrompt' | 'duration'>>({ script: [], visualPrompt: '', duration: 0 });
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
   const [isZipping, setIsZipping] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const [showSafeAreas, setShowSafeAreas] = useState(false);
+  const [castFilter, setCastFilter] = useState(''); // Character id; '' shows every scene
+  const [rewriteSceneId, setRewriteSceneId] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [animaticSceneId, setAnimaticSceneId] = useState<string | null>(null); // Scene the animatic starts at
+  const [promptTarget, setPromptTarget] = useState<PromptTarget>(loadPromptTarget);
+
+  // Reordering and inserting need the full list in view, so they're off while filtering
+  const isFiltered = castFilter !== '' && project.characters.some(c => c.id === castFilter);
+
+  const aspectRatio = getAspectRatio(project);
+  // Portrait frames are capped by height so a 9:16 card doesn't become a full-screen column
+  const frameStyle = isPortrait(aspectRatio)
+    ? { aspectRatio: toCssAspectRatio(aspectRatio), height: '24rem', maxWidth: '100%' }
+    : { aspectRatio: toCssAspectRatio(aspectRatio), width: '100%' };
+
+  const formatPrompt = (scene: Scene) => formatScenePrompt(scene, promptTarget, {
+    aspectRatio,
+    style,
+    characters: getSceneCharacters(scene, project.characters),
+  });
+
+  const handlePromptTargetChange = (target: PromptTarget) => {
+    setPromptTarget(target);
+    savePromptTarget(target);
+  };
+
+  const handleCopyPrompt = async (scene: Scene) => {
+    try {
+      await navigator.clipboard.writeText(formattedPromptToText(formatPrompt(scene)));
+    } catch (e) {
+      alert("Couldn't copy to the clipboard.");
+    }
+  };
 
   const handleEditClick = (scene: Scene) => {
     setEditingSceneId(scene.id);
-    setEditPromptValue(scene.visualPrompt);
+    setEditDraft({ script: scene.script, visualPrompt: scene.visualPrompt, duration: scene.duration });
   };
 
-  const handleSavePrompt = (sceneId: string) => {
-    const updatedScenes = project.scenes.map(s => 
-      s.id === sceneId ? { ...s, visualPrompt: editPromptValue } : s
+  const handleSaveScene = (scene: Scene) => {
+    const draft = {
+      ...editDraft,
+      script: editDraft.script.filter(line => line.text.trim()),
+      duration: editDraft.duration > 0 ? editDraft.duration : scene.duration,
+    };
+    const changed = (Object.keys(draft) as (keyof typeof draft)[]).filter(key =>
+      key === 'script' ? !isSameScript(draft.script, scene.script) : draft[key] !== scene[key]
     );
-    onUpdateProject({ ...project, scenes: updatedScenes });
     setEditingSceneId(null);
+    if (changed.length === 0) return;
+
+    // Whoever speaks in the scene is in it
+    const characterIds = [...new Set([...scene.characterIds, ...getScriptSpeakerIds(draft.script)])];
+    const updatedScenes = project.scenes.map(s => 
+      s.id === scene.id ? { ...s, ...draft, characterIds } : s
+    );
+    const fieldNames = { script: 'script', visualPrompt: 'prompt', duration: 'duration' };
+    const what = changed.length > 1 ? 'scene' : `${fieldNames[changed[0]]} for scene`;
+    onUpdateProject({ ...project, scenes: updatedScenes }, `Edited ${what} ${scene.sceneNumber}`);
   };
 
-  const handleGenerateImage = async (scene: Scene) => {
-    setLoadingImages(prev => ({ ...prev, [scene.id]: true }));
-    try {
-      const base64Image = await generateScenePreview(scene.visualPrompt);
-      const updatedScenes = project.scenes.map(s => 
-        s.id === scene.id ? { ...s, generatedImageUrl: base64Image } : s
-      );
-      onUpdateProject({ ...project, scenes: updatedScenes });
-    } catch (error) {
-      alert("Failed to generate image. Try again.");
-    } finally {
-      setLoadingImages(prev => ({ ...prev, [scene.id]: false }));
+  const updateScenes = (scenes: Scene[], label: string) => {
+    onUpdateProject({ ...project, scenes }, label);
+  };
+
+  const toggleCast = (scene: Scene, character: Character) => {
+    const isCast = scene.characterIds.includes(character.id);
+    const characterIds = isCast ? scene.characterIds.filter(id => id !== character.id) : [...scene.characterIds, character.id];
+    updateScenes(
+      project.scenes.map(s => s.id === scene.id ? { ...s, characterIds } : s),
+      isCast ? `Removed ${character.name} from scene ${scene.sceneNumber}` : `Added ${character.name} to scene ${scene.sceneNumber}`
+    );
+  };
+
+  const handleDeleteScene = (scene: Scene) => {
+    if (!confirm(`Delete scene ${scene.sceneNumber}?`)) return;
+    if (editingSceneId === scene.id) setEditingSceneId(null);
+    updateScenes(deleteScene(project.scenes, scene.id), `Deleted scene ${scene.sceneNumber}`);
+  };
+
+  const handleDrop = () => {
+    if (dragIndex !== null && dropIndex !== null) {
+      // dropIndex is an insertion point; account for the dragged scene leaving its old slot
+      const toIndex = dropIndex > dragIndex ? dropIndex - 1 : dropIndex;
+      if (toIndex !== dragIndex) {
+        updateScenes(moveScene(project.scenes, dragIndex, toIndex), `Moved scene ${dragIndex + 1} to position ${toIndex + 1}`);
+      }
     }
+    setDragIndex(null);
+    setDropIndex(null);
   };
 
+  const jobForScene = (sceneId: string) => previewJobs.find(j => j.sceneId === sceneId);
+  const isQueued = (sceneId: string) => { const job = jobForScene(sceneId); return !!job && isActiveJob(job); };
+  const missingPreviews = project.scenes.filter(s => !s.generatedImageUrl && s.visualPrompt && !isQueued(s.id));
+
+  const toJobRequest = (scene: Scene): PreviewJobRequest => ({ projectId: project.id, sceneId: scene.id, label: `Scene ${scene.sceneNumber}` });
+
+  const handleGenerateImage = (scene: Scene) => onQueuePreviews([toJobRequest(scene)]);
+
   const handleDownloadAssets = async () => {
     setIsZipping(true);
     try {
       const zip = new JSZip();
-      let scriptContent = `Project: ${project.name}\nStyle: ${project.style}\nType: ${project.type}\nStory Idea: ${project.storyIdea}\n\n================================================\n\n`;
+      const formatter = getPromptFormatter(promptTarget);
+      let scriptContent = `Project: ${project.name}\nStyle: ${style.name}\nType: ${project.type}\nPrompt Format: ${formatter.label}\nStory Idea: ${project.storyIdea}\n\n================================================\n\n`;
 
       project.scenes.forEach((scene) => {
-        const imageName = `scene_${String(scene.sceneNumber).padStart(3, '0')}.png`;
+        // Mock previews are SVG, so the extension comes from the data URL
+        const image = scene.generatedImageUrl ? parseDataUrl(scene.generatedImageUrl) : null;
+        const imageName = sceneImageFileName(scene);
         
         scriptContent += `SCENE ${scene.sceneNumber}\n`;
-        scriptContent += `Duration: ${scene.duration}\n`;
-        scriptContent += `Script: "${scene.script}"\n`;
+        scriptContent += `Duration: ${formatDuration(scene.duration)}\n`;
+        scriptContent += `Characters: ${getSceneCharacters(scene, project.characters).map(c => c.name).join(', ') || '-'}\n`;
+        scriptContent += `Script:\n${hasScript(scene.script) ? scriptToText(scene.script, project.characters).replace(/^/gm, '  ') : '  -'}\n`;
         scriptContent += `Visual Prompt: ${scene.visualPrompt}\n`;
+        if (promptTarget !== 'generic' && scene.visualPrompt) {
+          scriptContent += `${formatter.label} Prompt:\n${formattedPromptToText(formatPrompt(scene))}\n`;
+        }
         scriptContent += `Generated Image File: ${scene.generatedImageUrl ? imageName : '[Not Generated Yet]'}\n`;
         scriptContent += `------------------------------------------------\n\n`;
 
-        if (scene.generatedImageUrl) {
-          // Remove data:image/png;base64, prefix to get clean base64 string
-          const base64Data = scene.generatedImageUrl.split(',')[1];
-          if (base64Data) {
-            zip.file(imageName, base64Data, { base64: true });
-          }
+        if (image?.base64) {
+          zip.file(imageName, image.base64, { base64: true });
         }
       });
 
       zip.file("script_and_prompts.txt", scriptContent);
+      if (project.scenes.some(s => hasScript(s.script))) {
+        zip.file("subtitles.srt", buildSubtitles(project.scenes, project.characters, 'srt'));
+        zip.file("subtitles.vtt", buildSubtitles(project.scenes, project.characters, 'vtt'));
+      }
+      // Timelines sit next to the images so the relative file references resolve
+      TIMELINE_FORMATS.forEach(format => zip.file(`timeline.${format.extension}`, buildTimeline(project, format.id)));
 
       const blob = await zip.generateAsync({ type: "blob" });
       
-      // Trigger download
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_assets.zip`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      downloadBlob(blob, `${toFileSlug(project.name)}_assets.zip`);
 
     } catch (error) {
       console.error("Export failed", error);
@@ -90,16 +187,131 @@ export const Storyboard: React.FC<StoryboardProps> = ({ project, onUpdateProject
     }
   };
 
+  const handleExportBundle = async () => {
+    setIsBundling(true);
+    try {
+      const blob = await exportProjectBundle(project, style);
+      downloadBlob(blob, `${toFileSlug(project.name)}${BUNDLE_EXTENSION}`);
+    } catch (error) {
+      console.error("Project export failed", error);
+      alert("Failed to export project.");
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
+  // A header starts each run of visible scenes that belong to the same beat
+  const beatsById = new Map<string, Beat>((project.beats || []).map(b => [b.id, b]));
+  const beatKey = (scene?: Scene) => scene?.beatId && beatsById.has(scene.beatId) ? scene.beatId : '';
+  const isVisible = (scene: Scene) => !isFiltered || scene.characterIds.includes(castFilter);
+  const startsBeatRun = (index: number) => {
+    const previous = project.scenes.slice(0, index).reverse().find(isVisible);
+    return beatsById.size > 0 && beatKey(project.scenes[index]) !== beatKey(previous);
+  };
+
+  const renderBeatHeader = (scene: Scene) => {
+    const beat = beatsById.get(beatKey(scene));
+    if (!beat) {
+      return <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide pt-4 px-1">Not in the outline</h3>;
+    }
+    const beatScenes = getBeatScenes(project.scenes, beat.id);
+    return (
+      <div className="flex items-start justify-between gap-4 pt-4 px-1">
+        <div className="min-w-0">
+          <h3 className="text-sm font-bold text-white flex items-center gap-2">
+            <ListTree size={14} className="text-purple-400" />
+            <span className="text-purple-400">Act {beat.act}</span> · {beat.title}
+            <span className="text-xs font-normal text-gray-500">{beatScenes.length} scenes · {formatDuration(totalDuration(beatScenes))}</span>
+          </h3>
+          {beat.summary && <p className="text-xs text-gray-400 mt-0.5">{beat.summary}</p>}
+        </div>
+        <button
+          onClick={() => confirm(`Regenerate the ${beatScenes.length} scenes of "${beat.title}"?`) && onRegenerateBeat(beat)}
+          disabled={isGeneratingScenes}
+          title="Rewrite only this beat's scenes from the outline"
+          className="text-xs text-gray-400 hover:text-white disabled:opacity-40 flex items-center gap-1 px-2 py-1 whitespace-nowrap"
+        >
+          <RefreshCw size={12} /> Regenerate beat
+        </button>
+      </div>
+    );
+  };
+
+  const renderInsertSlot = (index: number) => (
+    <div
+      className="group/slot relative h-8 flex items-center justify-center"
+      onDragOver={(e) => { if (dragIndex !== null) { e.preventDefault(); setDropIndex(index); } }}
+      onDrop={(e) => { e.preventDefault(); handleDrop(); }}
+    >
+      <div className={`absolute inset-x-0 top-1/2 h-0.5 rounded ${dragIndex !== null && dropIndex === index ? 'bg-purple-500' : 'bg-transparent group-hover/slot:bg-gray-800'}`}></div>
+      <button
+        onClick={() => updateScenes(insertBlankScene(project.scenes, index), `Inserted scene ${index + 1}`)}
+        className="relative opacity-0 group-hover/slot:opacity-100 bg-gray-800 border border-gray-700 text-gray-300 hover:text-white px-3 py-1 rounded-full text-xs flex items-center gap-1 transition-opacity"
+      >
+        <Plus size={12} /> Insert scene
+      </button>
+    </div>
+  );
+
   return (
     <div className="space-y-6 pb-20">
-      <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+      <div className="flex justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2 shrink-0">
           <Wand2 className="text-purple-400" /> Storyboard & Prompts
         </h2>
-        <div className="flex items-center gap-3">
+        <div className="flex flex-wrap items-center justify-end gap-3">
           <span className="text-sm text-gray-500 bg-gray-900 px-3 py-1 rounded-full border border-gray-800">
-            {project.scenes.length} Scenes
+            {isFiltered ? `${project.scenes.filter(s => s.characterIds.includes(castFilter)).length} of ` : ''}{project.scenes.length} Scenes
           </span>
+          {project.characters.length > 0 && (
+            <select
+              value={isFiltered ? castFilter : ''}
+              onChange={(e) => setCastFilter(e.target.value)}
+              title="Show only scenes with this character"
+              className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-sm text-gray-300 outline-none focus:ring-1 focus:ring-purple-500"
+            >
+              <option value="">All characters</option>
+              {project.characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          )}
+          <select
+            value={project.aspectRatio || ''}
+            onChange={(e) => onUpdateProject(
+              { ...project, aspectRatio: (e.target.value || undefined) as AspectRatio | undefined },
+              `Changed aspect ratio to ${e.target.value || DEFAULT_ASPECT_RATIOS[project.type]}`
+            )}
+            title="Frame aspect ratio"
+            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-sm text-gray-300 outline-none focus:ring-1 focus:ring-purple-500"
+          >
+            <option value="">Auto ({DEFAULT_ASPECT_RATIOS[project.type]})</option>
+            {ASPECT_RATIOS.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+          {aspectRatio === '9:16' && (
+            <button
+              onClick={() => setShowSafeAreas(!showSafeAreas)}
+              title="Show regions covered by the YouTube Shorts UI"
+              className={`p-2 rounded-lg border transition-colors ${showSafeAreas ? 'bg-red-500/20 border-red-500/50 text-red-300' : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-white'}`}
+            >
+              <Smartphone size={16} />
+            </button>
+          )}
+          <select
+            value={promptTarget}
+            onChange={(e) => handlePromptTargetChange(e.target.value as PromptTarget)}
+            title="Tool the prompts are formatted for, on screen and in Download Assets"
+            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-sm text-gray-300 outline-none focus:ring-1 focus:ring-purple-500"
+          >
+            {PROMPT_FORMATTERS.map(f => <option key={f.id} value={f.id}>{f.id === 'generic' ? 'Prompt: Generic' : `Prompt: ${f.label}`}</option>)}
+          </select>
+          <button
+            onClick={() => onQueuePreviews(missingPreviews.map(toJobRequest))}
+            disabled={missingPreviews.length === 0}
+            title="Queue a preview for every scene that doesn't have one"
+            className="bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 shadow-lg transition-colors"
+          >
+            <Images size={16} />
+            Generate Missing{missingPreviews.length > 0 ? ` (${missingPreviews.length})` : ''}
+          </button>
           <button 
             onClick={handleDownloadAssets}
             disabled={isZipping || project.scenes.length === 0}
@@ -108,108 +320,328 @@ export const Storyboard: React.FC<StoryboardProps> = ({ project, onUpdateProject
             {isZipping ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
             Download Assets
           </button>
+          <button
+            onClick={() => setAnimaticSceneId(project.scenes[0].id)}
+            disabled={project.scenes.length === 0}
+            title="Play the storyboard as an animatic"
+            className="bg-gray-700 hover:bg-gray-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 shadow-lg transition-colors"
+          >
+            <Clapperboard size={16} />
+            Animatic
+          </button>
+          <button
+            onClick={() => setShowExport(true)}
+            disabled={project.scenes.length === 0}
+            title="Printable storyboard sheet, subtitles and edit timelines"
+            className="bg-gray-700 hover:bg-gray-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 shadow-lg transition-colors"
+          >
+            <Printer size={16} />
+            Print
+          </button>
+          <button
+            onClick={handleExportBundle}
+            disabled={isBundling}
+            title="Export a bundle that can be imported again from the dashboard"
+            className="bg-gray-700 hover:bg-gray-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 shadow-lg transition-colors"
+          >
+            {isBundling ? <Loader2 size={16} className="animate-spin" /> : <Package size={16} />}
+            Export Project
+          </button>
         </div>
       </div>
 
-      <div className="grid gap-8">
-        {project.scenes.map((scene, index) => (
-          <div key={scene.id} className="bg-gray-800 border border-gray-700 rounded-xl overflow-hidden shadow-xl flex flex-col lg:flex-row">
+      <Timeline
+        project={project}
+        onUpdateProject={onUpdateProject}
+        onUpdateLatestProject={onUpdateLatestProject}
+        onSelectScene={(sceneId) => document.getElementById(`scene-${sceneId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })}
+      />
+
+      <div className="flex flex-col">
+        {project.scenes.map((scene, index) => !isVisible(scene) ? null : (
+          <React.Fragment key={scene.id}>
+            {isFiltered ? <div className="h-4" /> : renderInsertSlot(index)}
+            {startsBeatRun(index) && renderBeatHeader(scene)}
+            <div
+              id={`scene-${scene.id}`}
+              draggable={!isFiltered && editingSceneId !== scene.id}
+              onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragIndex(index); }}
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                const rect = e.currentTarget.getBoundingClientRect();
+                setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+              }}
+              onDrop={(e) => { e.preventDefault(); handleDrop(); }}
+              onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+              className={`bg-gray-800 border border-gray-700 rounded-xl overflow-hidden shadow-xl flex flex-col lg:flex-row transition-opacity ${dragIndex === index ? 'opacity-40' : ''}`}
+            >
             
-            {/* Visual Column */}
-            <div className="w-full lg:w-1/3 bg-gray-900 relative min-h-[250px] flex items-center justify-center border-r border-gray-700">
-              {scene.generatedImageUrl ? (
-                <>
-                  <img src={scene.generatedImageUrl} alt={`Scene ${scene.sceneNumber}`} className="w-full h-full object-cover" />
-                  <div className="absolute inset-0 bg-black/50 opacity-0 hover:opacity-100 transition-opacity flex items-center justify-center">
-                    <button 
-                      onClick={() => handleGenerateImage(scene)}
-                      className="bg-white/10 hover:bg-white/20 backdrop-blur text-white px-4 py-2 rounded-lg flex items-center gap-2"
+              {/* Visual Column */}
+              <div className="w-full lg:w-1/3 bg-gray-900 p-3 flex items-center justify-center border-r border-gray-700">
+                <div className="relative overflow-hidden rounded-lg bg-gray-950 flex items-center justify-center" style={frameStyle}>
+                  {scene.generatedImageUrl ? (
+                    <>
+                      <img src={scene.generatedImageUrl} alt={`Scene ${scene.sceneNumber}`} className="w-full h-full object-cover" />
+                      {isQueued(scene.id) ? (
+                        <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-10">
+                          <span className="text-white text-sm flex items-center gap-2"><Loader2 size={16} className="animate-spin" /> Regenerating...</span>
+                        </div>
+                      ) : (
+                        <div className="absolute inset-0 bg-black/50 opacity-0 hover:opacity-100 transition-opacity flex items-center justify-center z-10">
+                          <button 
+                            onClick={() => handleGenerateImage(scene)}
+                            className="bg-white/10 hover:bg-white/20 backdrop-blur text-white px-4 py-2 rounded-lg flex items-center gap-2"
+                          >
+                            <RefreshCw size={16} /> Regenerate
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <div className="text-center p-6">
+                      {isQueued(scene.id) ? (
+                        <div className="flex flex-col items-center gap-3 animate-pulse">
+                          <div className="w-10 h-10 border-4 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
+                          <span className="text-purple-400 text-sm">
+                            {jobForScene(scene.id)!.status === 'running' ? 'Generating Preview...' : 'Queued...'}
+                          </span>
+                        </div>
+                      ) : (
+                        <div className="flex flex-col items-center gap-3">
+                          <ImageIcon size={48} className="text-gray-700" />
+                          <button 
+                            onClick={() => handleGenerateImage(scene)}
+                            disabled={!scene.visualPrompt}
+                            className="bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-lg"
+                          >
+                            {jobForScene(scene.id)?.status === 'failed' ? 'Retry Preview' : 'Generate Preview'}
+                          </button>
+                          {jobForScene(scene.id)?.status === 'failed' && (
+                            <span className="text-xs text-red-400 flex items-center gap-1"><AlertTriangle size={12} /> Last attempt failed</span>
+                          )}
+                          {(() => {
+                            const referenced = getSceneCharacters(scene, project.characters).filter(c => c.referenceImageUrl);
+                            return referenced.length > 0 && (
+                              <span className="text-xs text-gray-500">Using reference: {referenced.map(c => c.name).join(', ')}</span>
+                            );
+                          })()}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {showSafeAreas && aspectRatio === '9:16' && (
+                    <div className="absolute inset-0 pointer-events-none">
+                      <div className="absolute inset-x-0 top-0 bg-red-500/20 border-b border-dashed border-red-400/70" style={{ height: `${SHORTS_UI_REGIONS.top}%` }} />
+                      <div className="absolute inset-x-0 bottom-0 bg-red-500/20 border-t border-dashed border-red-400/70" style={{ height: `${SHORTS_UI_REGIONS.bottom}%` }} />
+                      <div
+                        className="absolute right-0 bg-red-500/20 border-l border-dashed border-red-400/70"
+                        style={{ top: `${SHORTS_UI_REGIONS.top}%`, bottom: `${SHORTS_UI_REGIONS.bottom}%`, width: `${SHORTS_UI_REGIONS.right}%` }}
+                      />
+                    </div>
+                  )}
+                  <div className="absolute top-2 left-2 bg-black/60 backdrop-blur text-white px-2 py-1 text-xs font-bold rounded">
+                    Scene {scene.sceneNumber}
+                  </div>
+                  <div className="absolute bottom-2 right-2 bg-black/60 backdrop-blur text-gray-300 px-2 py-1 text-xs rounded">
+                    {formatDuration(scene.duration)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Content Column */}
+              <div className="w-full lg:w-2/3 p-6 flex flex-col gap-4">
+
+                {/* Scene Toolbar */}
+                <div className="flex justify-between items-center -mt-2">
+                  <span className={isFiltered ? 'text-gray-800' : 'text-gray-600 cursor-grab active:cursor-grabbing'} title={isFiltered ? 'Clear the character filter to reorder' : 'Drag to reorder'}>
+                    <GripVertical size={16} />
+                  </span>
+                  <div className="flex items-center gap-1">
+                    {editingSceneId === scene.id ? (
+                      <>
+                        <button 
+                          onClick={() => handleSaveScene(scene)}
+                          className="text-green-400 hover:text-green-300 text-xs flex items-center gap-1 font-bold px-2 py-1"
+                        >
+                          <Check size={14} /> Save
+                        </button>
+                        <button
+                          onClick={() => setEditingSceneId(null)}
+                          className="text-gray-400 hover:text-white text-xs flex items-center gap-1 px-2 py-1"
+                        >
+                          <X size={14} /> Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button 
+                        onClick={() => handleEditClick(scene)}
+                        className="text-gray-400 hover:text-white text-xs flex items-center gap-1 px-2 py-1"
+                      >
+                        <Edit2 size={14} /> Edit
+                      </button>
+                    )}
+                    <button onClick={() => setAnimaticSceneId(scene.id)} title="Play the animatic from this scene" className="text-gray-500 hover:text-white p-1.5 rounded hover:bg-gray-700">
+                      <Play size={14} />
+                    </button>
+                    <button onClick={() => setRewriteSceneId(scene.id)} title="Rewrite this scene (or a range from here) with AI" className="text-gray-500 hover:text-purple-300 p-1.5 rounded hover:bg-gray-700">
+                      <Sparkles size={14} />
+                    </button>
+                    <button onClick={() => updateScenes(duplicateScene(project.scenes, scene.id), `Duplicated scene ${scene.sceneNumber}`)} title="Duplicate scene" className="text-gray-500 hover:text-white p-1.5 rounded hover:bg-gray-700">
+                      <Copy size={14} />
+                    </button>
+                    <button onClick={() => updateScenes(splitScene(project.scenes, scene.id), `Split scene ${scene.sceneNumber}`)} title="Split into two scenes" className="text-gray-500 hover:text-white p-1.5 rounded hover:bg-gray-700">
+                      <Scissors size={14} />
+                    </button>
+                    <button
+                      onClick={() => updateScenes(mergeWithNext(project.scenes, scene.id), `Merged scenes ${scene.sceneNumber} and ${scene.sceneNumber + 1}`)}
+                      disabled={index === project.scenes.length - 1}
+                      title="Merge with next scene"
+                      className="text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500 disabled:hover:bg-transparent p-1.5 rounded hover:bg-gray-700"
                     >
-                      <RefreshCw size={16} /> Regenerate
+                      <Merge size={14} />
+                    </button>
+                    <button onClick={() => handleDeleteScene(scene)} title="Delete scene" className="text-gray-500 hover:text-red-400 p-1.5 rounded hover:bg-gray-700">
+                      <Trash2 size={14} />
                     </button>
                   </div>
-                </>
-              ) : (
-                <div className="text-center p-6">
-                  {loadingImages[scene.id] ? (
-                    <div className="flex flex-col items-center gap-3 animate-pulse">
-                      <div className="w-10 h-10 border-4 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
-                      <span className="text-purple-400 text-sm">Generating Preview...</span>
+                </div>
+              
+                {/* Script Section */}
+                <div className="bg-gray-750 rounded-lg p-4 border-l-4 border-blue-500">
+                  <h4 className="text-xs font-bold text-blue-400 uppercase tracking-wide mb-1 flex items-center gap-2">
+                     <PlayCircle size={12} /> Script
+                  </h4>
+                  {editingSceneId === scene.id ? (
+                    <div className="space-y-3">
+                      <ScriptEditor
+                        lines={editDraft.script}
+                        characters={project.characters}
+                        defaultSpeakerId={scene.characterIds[0] || project.characters[0]?.id}
+                        onChange={(script) => setEditDraft({ ...editDraft, script })}
+                      />
+                      <label className="flex items-center gap-2 text-xs text-gray-400">
+                        Duration
+                        <input
+                          type="number"
+                          min={0.5}
+                          step={0.5}
+                          value={editDraft.duration}
+                          onChange={(e) => setEditDraft({ ...editDraft, duration: Number(e.target.value) })}
+                          className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      </label>
                     </div>
                   ) : (
-                    <div className="flex flex-col items-center gap-3">
-                      <ImageIcon size={48} className="text-gray-700" />
-                      <button 
-                        onClick={() => handleGenerateImage(scene)}
-                        className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-lg"
-                      >
-                        Generate Preview
-                      </button>
+                    <div onClick={() => handleEditClick(scene)} className="space-y-1 cursor-pointer">
+                      {hasScript(scene.script) ? scene.script.map(line => (
+                        <p key={line.id} className="text-gray-200 leading-relaxed">
+                          {line.type === 'action' ? (
+                            <span className="text-gray-400 italic">{line.text}</span>
+                          ) : line.type === 'text' ? (
+                            <span className="text-yellow-200/90"><span className="text-xs font-bold uppercase text-yellow-500/80 mr-2">On screen</span>{line.text}</span>
+                          ) : (
+                            <>
+                              <span className={`text-xs font-bold uppercase mr-2 ${line.type === 'voiceover' ? 'text-teal-400' : 'text-blue-400'}`}>
+                                {getSpeakerName(line, project.characters)}
+                              </span>
+                              <span className="font-serif text-lg">{line.text}</span>
+                            </>
+                          )}
+                        </p>
+                      )) : <span className="italic text-gray-600 text-sm">Silent shot. Click to add lines...</span>}
                     </div>
                   )}
                 </div>
-              )}
-              <div className="absolute top-2 left-2 bg-black/60 backdrop-blur text-white px-2 py-1 text-xs font-bold rounded">
-                Scene {scene.sceneNumber}
-              </div>
-              <div className="absolute bottom-2 right-2 bg-black/60 backdrop-blur text-gray-300 px-2 py-1 text-xs rounded">
-                {scene.duration}
-              </div>
-            </div>
 
-            {/* Content Column */}
-            <div className="w-full lg:w-2/3 p-6 flex flex-col gap-4">
-              
-              {/* Script Section */}
-              <div className="bg-gray-750 rounded-lg p-4 border-l-4 border-blue-500">
-                <h4 className="text-xs font-bold text-blue-400 uppercase tracking-wide mb-1 flex items-center gap-2">
-                   <PlayCircle size={12} /> Voiceover / Action
-                </h4>
-                <p className="text-gray-200 text-lg leading-relaxed font-serif italic">"{scene.script}"</p>
-              </div>
-
-              {/* Prompt Section */}
-              <div className="flex-1">
-                <div className="flex justify-between items-center mb-2">
-                  <h4 className="text-xs font-bold text-purple-400 uppercase tracking-wide flex items-center gap-2">
+                {/* Prompt Section */}
+                <div className="flex-1">
+                  <h4 className="text-xs font-bold text-purple-400 uppercase tracking-wide flex items-center gap-2 mb-2">
                     <Wand2 size={12} /> Image Generation Prompt
                   </h4>
+
                   {editingSceneId === scene.id ? (
-                    <button 
-                      onClick={() => handleSavePrompt(scene.id)}
-                      className="text-green-400 hover:text-green-300 text-xs flex items-center gap-1 font-bold"
-                    >
-                      <Check size={14} /> Save
-                    </button>
+                    <textarea
+                      value={editDraft.visualPrompt}
+                      onChange={(e) => setEditDraft({ ...editDraft, visualPrompt: e.target.value })}
+                      className="w-full h-32 bg-gray-900 border border-purple-500/50 rounded-lg p-3 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-purple-500"
+                    />
                   ) : (
-                    <button 
+                    <div 
                       onClick={() => handleEditClick(scene)}
-                      className="text-gray-400 hover:text-white text-xs flex items-center gap-1"
+                      className="w-full bg-gray-900 border border-gray-700 hover:border-gray-600 rounded-lg p-3 text-sm text-gray-400 cursor-pointer transition-colors"
                     >
-                      <Edit2 size={14} /> Edit
-                    </button>
+                      {scene.visualPrompt || <span className="italic text-gray-600">Click to write a prompt...</span>}
+                    </div>
                   )}
+
+                  {promptTarget !== 'generic' && scene.visualPrompt && editingSceneId !== scene.id && (() => {
+                    const formatted = formatPrompt(scene);
+                    return (
+                      <div className="mt-2 bg-gray-950 border border-gray-800 rounded-lg p-3 text-xs space-y-1.5">
+                        <div className="flex justify-between items-center">
+                          <span className="font-bold text-gray-500 uppercase tracking-wide">{getPromptFormatter(promptTarget).label}</span>
+                          <button onClick={() => handleCopyPrompt(scene)} title="Copy prompt, negative prompt and settings" className="text-gray-500 hover:text-white flex items-center gap-1">
+                            <ClipboardCopy size={12} /> Copy
+                          </button>
+                        </div>
+                        <p className="text-gray-300 font-mono break-words">{formatted.prompt}</p>
+                        {formatted.negativePrompt && (
+                          <p className="text-gray-500 font-mono break-words"><span className="text-red-400/80">Negative:</span> {formatted.negativePrompt}</p>
+                        )}
+                        {formatted.settings && (
+                          <p className="text-gray-500">
+                            {Object.entries(formatted.settings).map(([name, value]) => `${name}: ${value}`).join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })()}
                 </div>
 
-                {editingSceneId === scene.id ? (
-                  <textarea
-                    value={editPromptValue}
-                    onChange={(e) => setEditPromptValue(e.target.value)}
-                    className="w-full h-32 bg-gray-900 border border-purple-500/50 rounded-lg p-3 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-purple-500"
-                  />
-                ) : (
-                  <div 
-                    onClick={() => handleEditClick(scene)}
-                    className="w-full bg-gray-900 border border-gray-700 hover:border-gray-600 rounded-lg p-3 text-sm text-gray-400 cursor-pointer transition-colors"
-                  >
-                    {scene.visualPrompt}
+                {/* Cast Section */}
+                {project.characters.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    <Users size={12} className="text-gray-500 mr-1" />
+                    {project.characters.map(character => {
+                      const isCast = scene.characterIds.includes(character.id);
+                      return (
+                        <button
+                          key={character.id}
+                          onClick={() => toggleCast(scene, character)}
+                          title={isCast ? `Remove ${character.name} from this scene` : `Add ${character.name} to this scene`}
+                          className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                            isCast ? 'bg-purple-600/30 border-purple-500/60 text-purple-200' : 'border-gray-700 text-gray-600 hover:text-gray-300 hover:border-gray-600'
+                          }`}
+                        >
+                          {character.name}
+                        </button>
+                      );
+                    })}
                   </div>
                 )}
               </div>
             </div>
-          </div>
+          </React.Fragment>
         ))}
+        {!isFiltered && renderInsertSlot(project.scenes.length)}
       </div>
+
+      {rewriteSceneId && (
+        <RewritePanel
+          project={project}
+          style={style}
+          initialSceneId={rewriteSceneId}
+          onUpdateLatestProject={onUpdateLatestProject}
+          onClose={() => setRewriteSceneId(null)}
+        />
+      )}
+
+      {showExport && <ExportPanel project={project} style={style} onClose={() => setShowExport(false)} />}
+
+      {animaticSceneId && (
+        <AnimaticPlayer project={project} startSceneId={animaticSceneId} onClose={() => setAnimaticSceneId(null)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
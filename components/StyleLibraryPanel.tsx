@@ -0,0 +1,268 @@
+import React, { useRef, useState } from 'react';
+import { Project, StylePreset } from '../types';
+import { createStylePreset, describeStyle, duplicateStylePreset, exportStylePresets, parseStylePresets } from '../services/stylePresets';
+import { downloadBlob, readFileAsDataUrl, toFileSlug } from '../services/fileUtils';
+import { Palette, Plus, Copy, Trash2, Save, Upload, Download, ImagePlus, Lock, X } from 'lucide-react';
+
+interface StyleLibraryPanelProps {
+  styles: StylePreset[]; // Built-in presets first, then the user's
+  projects: Project[]; // To show which presets are in use
+  initialStyleId?: string;
+  onSave: (style: StylePreset) => void;
+  onDelete: (style: StylePreset) => void;
+  onImport: (styles: StylePreset[]) => void;
+  onClose: () => void;
+}
+
+const FIELDS: { key: 'prompt' | 'negativePrompt' | 'palette' | 'lighting' | 'lens'; label: string; placeholder: string; rows: number }[] = [
+  { key: 'prompt', label: 'Prompt', placeholder: 'e.g. Watercolor storybook illustration, soft edges, paper texture', rows: 3 },
+  { key: 'negativePrompt', label: 'Negative prompt', placeholder: 'e.g. 3D render, photorealistic, harsh outlines', rows: 2 },
+  { key: 'palette', label: 'Palette', placeholder: 'e.g. Muted greens and warm ochres', rows: 1 },
+  { key: 'lighting', label: 'Lighting', placeholder: 'e.g. Soft morning light, long shadows', rows: 1 },
+  { key: 'lens', label: 'Lens & camera', placeholder: 'e.g. 35mm, eye-level, shallow depth of field', rows: 1 },
+];
+
+const isSameStyle = (a: StylePreset, b: StylePreset) => JSON.stringify(a) === JSON.stringify(b);
+
+export const StyleLibraryPanel: React.FC<StyleLibraryPanelProps> = ({ styles, projects, initialStyleId, onSave, onDelete, onImport, onClose }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<StylePreset>(() => styles.find(s => s.id === initialStyleId) || styles[0]);
+
+  const saved = styles.find(s => s.id === draft.id);
+  const isDirty = !saved || !isSameStyle(saved, draft);
+  const usage = (style: StylePreset) => projects.filter(p => p.styleId === style.id).length;
+
+  // Unsaved edits are dropped only once the user agrees
+  const select = (style: StylePreset) => {
+    if (style.id === draft.id) return;
+    if (!draft.builtIn && isDirty && !confirm(`Discard your changes to "${draft.name}"?`)) return;
+    setDraft(style);
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      alert("Give the style a name.");
+      return;
+    }
+    const style = { ...draft, name };
+    onSave(style);
+    setDraft(style);
+  };
+
+  const handleDelete = () => {
+    const count = usage(draft);
+    const inUse = count > 0 ? `\n\n${count} project${count === 1 ? ' uses' : 's use'} it and will switch to the default style.` : '';
+    if (!saved || !confirm(`Delete the style "${draft.name}"?${inUse}`)) return;
+    onDelete(saved);
+    setDraft(styles[0]);
+  };
+
+  const handleUploadReference = async (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      alert("Please choose an image file.");
+      return;
+    }
+    try {
+      const referenceImageUrl = await readFileAsDataUrl(file);
+      setDraft(d => ({ ...d, referenceImageUrl }));
+    } catch (e) {
+      console.error("Error reading style reference image:", e);
+      alert("Failed to read the image file.");
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseStylePresets(await file.text());
+      if (imported.length === 0) {
+        alert("The file has no styles in it.");
+        return;
+      }
+      onImport(imported);
+      alert(`Imported ${imported.length} style${imported.length === 1 ? '' : 's'}.`);
+    } catch (e) {
+      console.error("Error importing styles:", e);
+      alert(e instanceof Error ? e.message : "Failed to import styles.");
+    }
+  };
+
+  const handleExport = (toExport: StylePreset[], fileName: string) => {
+    downloadBlob(new Blob([exportStylePresets(toExport)], { type: 'application/json' }), fileName);
+  };
+
+  const customStyles = styles.filter(s => !s.builtIn);
+  const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-1 focus:ring-purple-500 disabled:text-gray-400 resize-none";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] p-6 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Palette className="text-purple-400" size={20} /> Style Library
+          </h2>
+          <div className="flex items-center gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImport(file);
+              }}
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition-colors"
+            >
+              <Upload size={14} /> Import
+            </button>
+            <button
+              onClick={() => handleExport(customStyles, 'aniscript_styles.json')}
+              disabled={customStyles.length === 0}
+              title="Download all of your styles as JSON"
+              className="text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition-colors"
+            >
+              <Download size={14} /> Export All
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white p-1 ml-2">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-6 min-h-0 flex-1">
+          <div className="w-64 shrink-0 flex flex-col min-h-0">
+            <div className="overflow-y-auto space-y-1 pr-1">
+              {[...styles, ...(saved ? [] : [draft])].map(style => {
+                const count = usage(style);
+                return (
+                  <button
+                    key={style.id}
+                    onClick={() => select(style)}
+                    className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                      style.id === draft.id ? 'bg-purple-600/20 border-purple-500/60' : 'border-transparent hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-1.5 text-sm text-white">
+                      {style.builtIn && <Lock size={12} className="text-gray-500 shrink-0" />}
+                      <span className="truncate">{style.id === draft.id ? draft.name || 'Untitled' : style.name}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {style.id === draft.id && !saved ? 'Not saved' : count > 0 ? `${count} project${count === 1 ? '' : 's'}` : 'Unused'}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => select(createStylePreset())}
+              className="mt-3 w-full text-sm border border-dashed border-gray-600 hover:border-purple-500 text-gray-400 hover:text-white px-3 py-2 rounded-lg flex items-center justify-center gap-1.5 transition-colors"
+            >
+              <Plus size={14} /> New Style
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto pr-1 space-y-4">
+            {draft.builtIn && (
+              <p className="text-xs text-gray-400 bg-gray-900/50 border border-gray-700 rounded-lg px-3 py-2 flex items-center gap-2">
+                <Lock size={12} /> Built-in styles can't be changed. Duplicate this one to make your own version.
+              </p>
+            )}
+            <div>
+              <label className="block text-gray-400 text-xs font-bold mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                disabled={draft.builtIn}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            {FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-gray-400 text-xs font-bold mb-1">{field.label}</label>
+                <textarea
+                  value={draft[field.key] || ''}
+                  disabled={draft.builtIn}
+                  rows={field.rows}
+                  placeholder={field.placeholder}
+                  onChange={e => setDraft({ ...draft, [field.key]: field.key === 'prompt' || field.key === 'negativePrompt' ? e.target.value : e.target.value || undefined })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+
+            <div>
+              <label className="block text-gray-400 text-xs font-bold mb-1">Reference image</label>
+              <div className="flex items-start gap-3">
+                {draft.referenceImageUrl ? (
+                  <img src={draft.referenceImageUrl} alt="" className="w-40 rounded-lg border border-gray-700 object-cover" />
+                ) : (
+                  <div className="w-40 h-24 rounded-lg border border-dashed border-gray-700 flex items-center justify-center text-xs text-gray-600">None</div>
+                )}
+                {!draft.builtIn && (
+                  <div className="flex flex-col gap-2">
+                    <label className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 px-3 py-1.5 rounded-lg flex items-center gap-1.5 cursor-pointer transition-colors">
+                      <ImagePlus size={14} /> Upload
+                      <input type="file" accept="image/*" className="hidden" onChange={e => {
+                        handleUploadReference(e.target.files?.[0]);
+                        e.target.value = '';
+                      }} />
+                    </label>
+                    {draft.referenceImageUrl && (
+                      <button onClick={() => setDraft({ ...draft, referenceImageUrl: undefined })} className="text-xs text-gray-400 hover:text-red-400 text-left">
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Sent along with preview and character sheet prompts, like character reference sheets.</p>
+            </div>
+
+            {describeStyle(draft) && (
+              <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3 text-xs text-gray-400">
+                <span className="text-gray-500 font-bold">Added to prompts:</span> {describeStyle(draft)}
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 pt-2 border-t border-gray-700">
+              {!draft.builtIn && (
+                <button
+                  onClick={handleSave}
+                  disabled={!isDirty}
+                  className="bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors"
+                >
+                  <Save size={14} /> Save
+                </button>
+              )}
+              <button
+                onClick={() => select(duplicateStylePreset(draft))}
+                className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm flex items-center gap-2 transition-colors"
+              >
+                <Copy size={14} /> Duplicate
+              </button>
+              {saved && !draft.builtIn && (
+                <>
+                  <button
+                    onClick={() => handleExport([saved], `${toFileSlug(saved.name)}_style.json`)}
+                    className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm flex items-center gap-2 transition-colors"
+                  >
+                    <Download size={14} /> Export
+                  </button>
+                  <button onClick={handleDelete} className="ml-auto text-gray-400 hover:text-red-400 px-3 py-2 text-sm flex items-center gap-1.5">
+                    <Trash2 size={14} /> Delete
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Project, VideoType } from '../types';
+import { rebalanceSceneDurations } from '../services/geminiService';
+import { clampTargetRuntime, formatDuration, getRuntimeWarnings, getTargetRuntime, totalDuration, SHORTS_MAX_SECONDS } from '../services/durations';
+import { Clock, AlertTriangle, Scale, Loader2 } from 'lucide-react';
+
+interface TimelineProps {
+  project: Project;
+  onUpdateProject: (p: Project, label: string) => void;
+  onUpdateLatestProject: (change: (latest: Project) => Project, label: string) => void; // For changes made after an await
+  onSelectScene: (sceneId: string) => void;
+}
+
+export const Timeline: React.FC<TimelineProps> = ({ project, onUpdateProject, onUpdateLatestProject, onSelectScene }) => {
+  const [isRebalancing, setIsRebalancing] = useState(false);
+  const [targetDraft, setTargetDraft] = useState<string | null>(null); // Typed target, applied on blur
+
+  const total = totalDuration(project.scenes);
+  const target = getTargetRuntime(project);
+  const warnings = getRuntimeWarnings(project);
+  // The strip spans whichever is longer: unused runtime shows as empty track, overflow past a marker
+  const span = Math.max(total, target) || 1;
+
+  const handleRebalance = async () => {
+    setIsRebalancing(true);
+    try {
+      const durations = await rebalanceSceneDurations(project.scenes, project.characters, target, project.type, project.aiSettings);
+      // Keyed by scene, so scenes added or moved while waiting keep their place and length
+      const bySceneId = new Map(project.scenes.map((s, i) => [s.id, durations[i]]));
+      onUpdateLatestProject(
+        latest => ({ ...latest, scenes: latest.scenes.map(s => bySceneId.has(s.id) ? { ...s, duration: bySceneId.get(s.id)! } : s) }),
+        `Rebalanced durations to ${formatDuration(target)}`
+      );
+    } catch (e) {
+      alert("Failed to rebalance durations. Please try again.");
+    } finally {
+      setIsRebalancing(false);
+    }
+  };
+
+  const applyTargetDraft = () => {
+    const value = targetDraft === null ? undefined : clampTargetRuntime(targetDraft, project.type);
+    setTargetDraft(null);
+    if (value !== undefined && value !== target) onUpdateProject({ ...project, targetDurationSeconds: value }, 'Changed target runtime');
+  };
+
+  let elapsed = 0;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-2 text-sm">
+          <Clock size={16} className="text-purple-400" />
+          <span className="font-bold text-white">{formatDuration(total)}</span>
+          <span className="text-gray-500">of {formatDuration(target)} target</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-400 flex items-center gap-1">
+            Target
+            <input
+              type="number"
+              min={1}
+              max={project.type === VideoType.SHORT ? SHORTS_MAX_SECONDS : undefined}
+              value={targetDraft ?? target}
+              onChange={(e) => setTargetDraft(e.target.value)}
+              onBlur={applyTargetDraft}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-purple-500"
+            />
+            s
+          </label>
+          <button
+            onClick={handleRebalance}
+            disabled={isRebalancing || project.scenes.length === 0}
+            title="Ask the AI to retime every scene so the total hits the target"
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors"
+          >
+            {isRebalancing ? <Loader2 size={14} className="animate-spin" /> : <Scale size={14} />}
+            Rebalance
+          </button>
+        </div>
+      </div>
+
+      <div className="relative h-10 bg-gray-900 rounded-lg overflow-hidden flex">
+        {project.scenes.map((scene, i) => {
+          const start = elapsed;
+          elapsed += scene.duration;
+          const overLimit = project.type === VideoType.SHORT && elapsed > SHORTS_MAX_SECONDS;
+          return (
+            <button
+              key={scene.id}
+              onClick={() => onSelectScene(scene.id)}
+              title={`Scene ${scene.sceneNumber} · ${formatDuration(scene.duration)} · starts at ${formatDuration(start)}`}
+              style={{ width: `${(scene.duration / span) * 100}%` }}
+              className={`h-full border-r border-gray-950 text-[10px] font-bold text-white/80 overflow-hidden hover:brightness-125 transition-all ${
+                overLimit ? 'bg-red-600/70' : i % 2 === 0 ? 'bg-purple-600/70' : 'bg-pink-600/60'
+              }`}
+            >
+              {scene.sceneNumber}
+            </button>
+          );
+        })}
+        {total > target && (
+          <div className="absolute top-0 bottom-0 border-l-2 border-white/70" style={{ left: `${(target / span) * 100}%` }} />
+        )}
+      </div>
+
+      {warnings.map(warning => (
+        <p key={warning} className="text-xs text-yellow-400 flex items-center gap-1.5">
+          <AlertTriangle size={12} /> {warning}
+        </p>
+      ))}
+    </div>
+  );
+};
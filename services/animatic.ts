@@ -0,0 +1,187 @@
+import { AspectRatio, Character, Scene } from "../types";
+import { SubtitleCue, buildSubtitleCues } from "./subtitles";
+
+// Canvas animatic: the scene previews held for their durations with a slow pan/zoom, crossfades
+// between scenes and the spoken lines as captions. Playback and WebM rendering draw the same frames.
+
+export interface AnimaticClip {
+  scene: Scene;
+  start: number; // Seconds from the start of the animatic
+  end: number;
+  image: HTMLImageElement | null; // null when the scene has no preview or it failed to load
+}
+
+export interface Animatic {
+  clips: AnimaticClip[];
+  cues: SubtitleCue[];
+  duration: number;
+}
+
+const MAX_FADE_SECONDS = 0.5;
+const ZOOM = 0.12; // How far the Ken Burns move zooms over a clip
+const PAN = 0.04; // Horizontal drift as a fraction of the frame width
+const SHORT_SIDE = 720; // Render resolution; playback scales the canvas with CSS
+
+export const RENDER_FPS = 30;
+
+export const getAnimaticSize = (aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  // Encoders want even dimensions
+  const even = (n: number) => Math.round(n / 2) * 2;
+  return w >= h ? { width: even(SHORT_SIDE * w / h), height: SHORT_SIDE } : { width: SHORT_SIDE, height: even(SHORT_SIDE * h / w) };
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement | null>(resolve => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => resolve(null);
+  image.src = src;
+});
+
+export const loadAnimatic = async (scenes: Scene[], characters: Character[]): Promise<Animatic> => {
+  const images = await Promise.all(scenes.map(s => s.generatedImageUrl ? loadImage(s.generatedImageUrl) : Promise.resolve(null)));
+  let elapsed = 0;
+  const clips = scenes.map((scene, i) => {
+    const start = elapsed;
+    elapsed += scene.duration;
+    return { scene, start, end: elapsed, image: images[i] };
+  });
+  return { clips, cues: buildSubtitleCues(scenes, characters), duration: elapsed };
+};
+
+/** Index of the clip playing at a time; the end of the animatic shows the last clip. */
+export const clipIndexAt = (animatic: Animatic, time: number) => {
+  const index = animatic.clips.findIndex(c => time < c.end);
+  return index === -1 ? animatic.clips.length - 1 : index;
+};
+
+const fadeAfter = (animatic: Animatic, index: number) => {
+  const clip = animatic.clips[index];
+  const next = animatic.clips[index + 1];
+  if (!next) return 0;
+  return Math.min(MAX_FADE_SECONDS, (clip.end - clip.start) / 4, (next.end - next.start) / 4);
+};
+
+const drawClip = (ctx: CanvasRenderingContext2D, animatic: Animatic, index: number, time: number, alpha: number) => {
+  const { width, height } = ctx.canvas;
+  const clip = animatic.clips[index];
+  ctx.globalAlpha = alpha;
+
+  if (!clip.image) {
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#4b5563';
+    ctx.font = `bold ${Math.round(height / 16)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`Scene ${clip.scene.sceneNumber}`, width / 2, height / 2);
+    ctx.globalAlpha = 1;
+    return;
+  }
+
+  // The move spans the clip plus the fades on either side, so it never stops mid-crossfade
+  const fadeIn = index > 0 ? fadeAfter(animatic, index - 1) : 0;
+  const fadeOut = fadeAfter(animatic, index);
+  const progress = Math.min(1, Math.max(0, (time - clip.start + fadeIn) / (clip.end - clip.start + fadeIn + fadeOut)));
+  // Alternate zooming in and out, and the pan direction, from clip to clip
+  const zoom = 1 + ZOOM * (index % 2 === 0 ? progress : 1 - progress);
+  const pan = (index % 4 < 2 ? 1 : -1) * PAN * (progress - 0.5) * width;
+
+  const scale = Math.max(width / clip.image.width, height / clip.image.height) * zoom;
+  const drawWidth = clip.image.width * scale;
+  const drawHeight = clip.image.height * scale;
+  ctx.drawImage(clip.image, (width - drawWidth) / 2 + pan, (height - drawHeight) / 2, drawWidth, drawHeight);
+  ctx.globalAlpha = 1;
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, cue: SubtitleCue) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(Math.min(width, height) / 22);
+  const lineHeight = fontSize * 1.3;
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Portrait frames keep captions clear of the Shorts UI at the bottom
+  const bottom = height * (height > width ? 0.75 : 0.9);
+  const boxWidth = Math.max(...cue.lines.map(line => ctx.measureText(line).width)) + fontSize;
+  const boxHeight = cue.lines.length * lineHeight + fontSize * 0.5;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect((width - boxWidth) / 2, bottom - boxHeight, boxWidth, boxHeight);
+  ctx.fillStyle = '#ffffff';
+  cue.lines.forEach((line, i) => {
+    ctx.fillText(line, width / 2, bottom - boxHeight + fontSize * 0.25 + lineHeight * (i + 0.5));
+  });
+};
+
+export const drawAnimaticFrame = (ctx: CanvasRenderingContext2D, animatic: Animatic, time: number, showCaptions: boolean) => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  if (animatic.clips.length === 0) return;
+
+  const index = clipIndexAt(animatic, time);
+  drawClip(ctx, animatic, index, time, 1);
+  const fade = fadeAfter(animatic, index);
+  const clip = animatic.clips[index];
+  if (fade > 0 && time > clip.end - fade) {
+    drawClip(ctx, animatic, index + 1, time, (time - (clip.end - fade)) / fade);
+  }
+
+  const cue = showCaptions && animatic.cues.find(c => time >= c.start && time < c.end);
+  if (cue) drawCaption(ctx, cue);
+};
+
+const pickMimeType = () =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Records the animatic to WebM in real time (MediaRecorder only captures what is drawn as it
+ * happens), so rendering takes as long as the animatic and the tab should stay in front.
+ */
+export const renderAnimaticWebM = (
+  animatic: Animatic,
+  canvas: HTMLCanvasElement,
+  showCaptions: boolean,
+  onProgress: (fraction: number) => void,
+  signal: AbortSignal
+) => new Promise<Blob>((resolve, reject) => {
+  const mimeType = typeof MediaRecorder !== 'undefined' ? pickMimeType() : undefined;
+  const ctx = canvas.getContext('2d');
+  if (!mimeType || !ctx) {
+    reject(new Error("This browser can't record WebM video."));
+    return;
+  }
+
+  const stream = canvas.captureStream(RENDER_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 5_000_000 });
+  const chunks: Blob[] = [];
+  let frameRequest = 0;
+
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.onstop = () => {
+    cancelAnimationFrame(frameRequest);
+    stream.getTracks().forEach(track => track.stop());
+    if (signal.aborted) reject(new DOMException('Render cancelled', 'AbortError'));
+    else resolve(new Blob(chunks, { type: 'video/webm' }));
+  };
+  signal.addEventListener('abort', () => { if (recorder.state !== 'inactive') recorder.stop(); });
+
+  drawAnimaticFrame(ctx, animatic, 0, showCaptions);
+  recorder.start(1000);
+  const startedAt = performance.now();
+
+  const tick = () => {
+    const time = (performance.now() - startedAt) / 1000;
+    if (time >= animatic.duration) {
+      drawAnimaticFrame(ctx, animatic, animatic.duration, showCaptions);
+      onProgress(1);
+      if (recorder.state !== 'inactive') recorder.stop();
+      return;
+    }
+    drawAnimaticFrame(ctx, animatic, time, showCaptions);
+    onProgress(time / animatic.duration);
+    frameRequest = requestAnimationFrame(tick);
+  };
+  frameRequest = requestAnimationFrame(tick);
+});
@@ -0,0 +1,191 @@
+import JSZip from 'jszip';
+import { Character, Project, Scene, StylePreset } from '../types';
+import { PROJECT_SCHEMA_VERSION, upgradeProject, validateProject, validateProjectStructure } from './projectSchema';
+import { parseDataUrl, toFileSlug } from './fileUtils';
+import { validateStylePreset } from './stylePresets';
+
+// A .aniscript bundle is a zip holding manifest.json plus the scene previews and character reference sheets it uses.
+// A project with a custom style preset carries a copy of it, so the look survives on another machine.
+
+export const BUNDLE_EXTENSION = '.aniscript';
+const BUNDLE_FORMAT = 'aniscript-project';
+const MANIFEST_FILE = 'manifest.json';
+
+type BundleScene = Omit<Scene, 'generatedImageUrl' | 'isGeneratingImage'> & {
+  imageFile?: string; // Path of the preview image inside the zip
+};
+
+type BundleCharacter = Omit<Character, 'referenceImageUrl'> & {
+  imageFile?: string; // Path of the reference sheet inside the zip
+};
+
+type BundleStyle = Omit<StylePreset, 'referenceImageUrl' | 'builtIn'> & {
+  imageFile?: string; // Path of the style reference image inside the zip
+};
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  project: Omit<Project, 'scenes' | 'characters'> & { scenes: BundleScene[]; characters: BundleCharacter[] };
+  style?: BundleStyle; // Absent for built-in presets
+}
+
+export interface ImportedBundle {
+  project: Project;
+  style?: StylePreset; // The project's custom style preset
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+/** Adds the image to the zip and returns its path, or undefined when there is nothing to add. */
+const packImage = (zip: JSZip, dataUrl: string | undefined, basePath: string) => {
+  const image = dataUrl ? parseDataUrl(dataUrl) : null;
+  if (!image) return undefined;
+  const imageFile = `${basePath}.${image.extension}`;
+  zip.file(imageFile, image.base64, { base64: true });
+  return imageFile;
+};
+
+const unpackImage = async (zip: JSZip, imageFile: string | undefined) => {
+  const image = imageFile ? zip.file(imageFile) : null;
+  if (!image) return undefined;
+  const extension = imageFile!.split('.').pop()!.toLowerCase();
+  const base64 = await image.async('base64');
+  return `data:${IMAGE_MIME_TYPES[extension] || 'image/png'};base64,${base64}`;
+};
+
+export const exportProjectBundle = async (project: Project, style: StylePreset): Promise<Blob> => {
+  const zip = new JSZip();
+
+  const scenes = project.scenes.map(({ generatedImageUrl, isGeneratingImage, ...scene }): BundleScene => {
+    const imageFile = packImage(zip, generatedImageUrl, `images/${scene.id}`);
+    return imageFile ? { ...scene, imageFile } : scene;
+  });
+  const characters = project.characters.map(({ referenceImageUrl, ...character }): BundleCharacter => {
+    const imageFile = packImage(zip, referenceImageUrl, `images/characters/${character.id}`);
+    return imageFile ? { ...character, imageFile } : character;
+  });
+  let bundleStyle: BundleStyle | undefined;
+  if (!style.builtIn) {
+    const { referenceImageUrl, builtIn, ...rest } = style;
+    const imageFile = packImage(zip, referenceImageUrl, 'images/style');
+    bundleStyle = imageFile ? { ...rest, imageFile } : rest;
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    project: {
+      ...project,
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      // Bundles get shared; never ship a project's API key with them
+      aiSettings: project.aiSettings && { ...project.aiSettings, apiKey: undefined },
+      characters,
+      scenes,
+    },
+    style: bundleStyle,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/** Several projects as one zip of .aniscript bundles, for exporting a selection at once. */
+export const exportProjectArchive = async (items: { project: Project; style: StylePreset }[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  for (const { project, style } of items) {
+    const slug = toFileSlug(project.name) || 'project';
+    let fileName = `${slug}${BUNDLE_EXTENSION}`;
+    for (let n = 2; usedNames.has(fileName); n++) fileName = `${slug}_${n}${BUNDLE_EXTENSION}`;
+    usedNames.add(fileName);
+    zip.file(fileName, await exportProjectBundle(project, style));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/** Reads, upgrades and validates a bundle. Throws with a readable message when the file is not usable. */
+export const readProjectBundle = async (file: Blob): Promise<ImportedBundle> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("This file is not a valid project bundle (not a zip archive).");
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new Error(`This file is not a valid project bundle (${MANIFEST_FILE} is missing).`);
+  }
+
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error(`The bundle's ${MANIFEST_FILE} is not valid JSON.`);
+  }
+  if (manifest.format !== BUNDLE_FORMAT || typeof manifest.schemaVersion !== 'number') {
+    throw new Error("The bundle manifest is not an AniScript project.");
+  }
+
+  const invalid = (errors: string[]) => new Error(`The bundle's project data is invalid:\n- ${errors.join('\n- ')}`);
+  // The upgrade steps assume the basic shape, so that is checked before them and the rest after
+  const structureErrors = validateProjectStructure(manifest.project);
+  if (structureErrors.length > 0) throw invalid(structureErrors);
+  const project = upgradeProject({ ...manifest.project, schemaVersion: manifest.schemaVersion });
+  const errors = validateProject(project);
+  if (errors.length > 0) throw invalid(errors);
+
+  const scenes = await Promise.all((project.scenes as BundleScene[]).map(async ({ imageFile, ...scene }): Promise<Scene> => {
+    const generatedImageUrl = await unpackImage(zip, imageFile);
+    return generatedImageUrl ? { ...scene, generatedImageUrl } : scene;
+  }));
+  const characters = await Promise.all((project.characters as BundleCharacter[]).map(async ({ imageFile, ...character }): Promise<Character> => {
+    const referenceImageUrl = await unpackImage(zip, imageFile);
+    return referenceImageUrl ? { ...character, referenceImageUrl } : character;
+  }));
+
+
+  // A broken style copy isn't worth failing the import for; the project falls back to the default style
+  let style: StylePreset | undefined;
+  if (manifest.style && validateStylePreset(manifest.style, 'Style').length === 0 && manifest.style.id === project.styleId) {
+    const { imageFile, ...rest } = manifest.style;
+    const referenceImageUrl = await unpackImage(zip, imageFile);
+    style = { ...rest, negativePrompt: rest.negativePrompt || '', ...(referenceImageUrl ? { referenceImageUrl } : {}) };
+  }
+
+  return { project: { ...project, characters, scenes }, style };
+};
+
+/**
+ * Gives the project (and its scenes, whose ids key the image store) fresh ids
+ * if any of them are already taken by an existing project.
+ */
+export const resolveIdCollisions = (project: Project, existing: Project[]): Project => {
+  const takenSceneIds = new Set(existing.flatMap(p => p.scenes.map(s => s.id)));
+  const collides = existing.some(p => p.id === project.id) || project.scenes.some(s => takenSceneIds.has(s.id));
+  if (!collides) return project;
+
+  // Snapshots refer to the same scenes (and restore their images by id), so they get the same new ids
+  const sceneIds = new Map<string, string>();
+  const remapScene = (s: Scene): Scene => {
+    if (!sceneIds.has(s.id)) sceneIds.set(s.id, crypto.randomUUID());
+    return { ...s, id: sceneIds.get(s.id)! };
+  };
+  const takenNames = new Set(existing.map(p => p.name));
+  return {
+    ...project,
+    id: crypto.randomUUID(),
+    name: takenNames.has(project.name) ? `${project.name} (imported)` : project.name,
+    scenes: project.scenes.map(remapScene),
+    snapshots: project.snapshots?.map(snapshot => ({ ...snapshot, scenes: snapshot.scenes.map(remapScene) })),
+  };
+};
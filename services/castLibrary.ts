@@ -0,0 +1,68 @@
+import { Character, Project } from "../types";
+import { renameInScenes } from "./characters";
+
+// The cast library holds recurring characters shared by every project. Projects get a copy of an
+// entry linked by `libraryId`; library edits reach a project only when they're pushed to it,
+// and a detached copy is an ordinary project character again.
+
+// Fields copied between a library entry and the project characters linked to it
+const LINKED_FIELDS = ['name', 'description', 'features', 'personality', 'referenceImageUrl'] as const;
+
+const linkedFields = (character: Character) => {
+  const fields: Partial<Character> = {};
+  LINKED_FIELDS.forEach(key => { fields[key] = character[key]; });
+  return fields;
+};
+
+/** The library entry a project character is linked to, if it still exists. */
+export const getLibraryEntry = (library: Character[], character: Character) =>
+  character.libraryId ? library.find(entry => entry.id === character.libraryId) : undefined;
+
+/** A new library entry from a project character. */
+export const createLibraryEntry = ({ libraryId, ...character }: Character): Character => ({
+  ...character,
+  id: crypto.randomUUID(),
+});
+
+/** A linked copy of the entry for a project, with an id that's free in its cast. */
+export const copyFromLibrary = (entry: Character, cast: Character[]): Character => ({
+  ...entry,
+  id: cast.some(c => c.id === entry.id) ? crypto.randomUUID() : entry.id,
+  libraryId: entry.id,
+});
+
+/** Whether the project's copy still matches the library entry. Needs the project's images loaded. */
+export const isInSync = (character: Character, entry: Character) =>
+  LINKED_FIELDS.every(key => (character[key] || '') === (entry[key] || ''));
+
+/** The project copy updated to the library version; its id (which scenes point at) is kept. */
+export const syncFromLibrary = (character: Character, entry: Character): Character => ({
+  ...character,
+  ...linkedFields(entry),
+});
+
+/** The library entry updated to a project copy's version. */
+export const syncToLibrary = (entry: Character, character: Character): Character => ({
+  ...entry,
+  ...linkedFields(character),
+});
+
+export const detachFromLibrary = ({ libraryId, ...character }: Character): Character => character;
+
+/** Projects with a copy of the entry. */
+export const getLinkedProjects = (projects: Project[], entryId: string) =>
+  projects.filter(p => p.characters.some(c => c.libraryId === entryId));
+
+/**
+ * The project (with its images loaded) with every copy of the entry updated, and scene mentions of
+ * a copy's old name renamed. The same project when the copies already match.
+ */
+export const applyLibraryEntry = (project: Project, entry: Character): Project => {
+  const outdated = project.characters.filter(c => c.libraryId === entry.id && !isInSync(c, entry));
+  if (outdated.length === 0) return project;
+  return {
+    ...project,
+    characters: project.characters.map(c => outdated.includes(c) ? syncFromLibrary(c, entry) : c),
+    scenes: outdated.reduce((scenes, c) => c.name === entry.name ? scenes : renameInScenes(scenes, c.name, entry.name), project.scenes),
+  };
+};
@@ -0,0 +1,208 @@
+import { Character, Scene } from "../types";
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Characters whose name appears as a whole word in the text (case-insensitive). */
+export const findCharactersInText = (text: string, characters: Character[]) =>
+  characters.filter(c => c.name.trim() && new RegExp(`\\b${escapeRegExp(c.name.trim())}\\b`, 'i').test(text));
+
+/** The scene's cast, in character list order; ids of deleted characters are skipped. */
+export const getSceneCharacters = (scene: Scene, characters: Character[]) =>
+  characters.filter(c => scene.characterIds.includes(c.id));
+
+export interface ScreenTime {
+  sceneCount: number;
+  duration: number; // Seconds
+  lineCount: number; // Dialogue lines spoken
+}
+
+/** Scene count, total duration and dialogue lines per character id. Characters not cast and never speaking are absent. */
+export const getScreenTime = (scenes: Scene[]) => {
+  const screenTime = new Map<string, ScreenTime>();
+  const entryFor = (id: string) => screenTime.get(id) || { sceneCount: 0, duration: 0, lineCount: 0 };
+  scenes.forEach(scene => {
+    scene.characterIds.forEach(id => {
+      const entry = entryFor(id);
+      screenTime.set(id, { ...entry, sceneCount: entry.sceneCount + 1, duration: entry.duration + scene.duration });
+    });
+    scene.script.forEach(line => {
+      if (line.type !== 'dialogue' || !line.characterId) return;
+      const entry = entryFor(line.characterId);
+      screenTime.set(line.characterId, { ...entry, lineCount: entry.lineCount + 1 });
+    });
+  });
+  return screenTime;
+};
+
+/**
+ * Drops cast entries and dialogue speakers that point at characters no longer in the list.
+ * Returns the same array when nothing changes.
+ */
+export const pruneCast = (scenes: Scene[], characters: Character[]) => {
+  const ids = new Set(characters.map(c => c.id));
+  const isKnown = (id?: string) => id === undefined || ids.has(id);
+  if (scenes.every(s => s.characterIds.every(isKnown) && s.script.every(line => isKnown(line.characterId)))) return scenes;
+  return scenes.map(s => ({
+    ...s,
+    characterIds: s.characterIds.filter(id => ids.has(id)),
+    script: s.script.map(line => isKnown(line.characterId) ? line : { ...line, characterId: undefined }),
+  }));
+};
+
+// --- Editing, import and export ---
+
+export type CharacterField = 'name' | 'description' | 'features' | 'personality';
+
+export const CHARACTER_FIELDS: { key: CharacterField; label: string; required: boolean }[] = [
+  { key: 'name', label: 'Name', required: true },
+  { key: 'description', label: 'Description', required: true },
+  { key: 'features', label: 'Visual features', required: true },
+  { key: 'personality', label: 'Personality', required: false },
+];
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Problems with a character edited in the form; `others` is the rest of the cast. */
+export const validateCharacter = (character: Character, others: Character[]): Partial<Record<CharacterField, string>> => {
+  const errors: Partial<Record<CharacterField, string>> = {};
+  CHARACTER_FIELDS.forEach(({ key, label, required }) => {
+    if (required && !(character[key] || '').trim()) errors[key] = `${label} is required.`;
+  });
+  if (!errors.name && others.some(c => sameName(c.name, character.name))) {
+    errors.name = `Another character is already called "${character.name.trim()}".`;
+  }
+  return errors;
+};
+
+export interface ParsedCharacters {
+  characters: Character[];
+  errors: string[]; // One per bad field; nothing should be imported while there are any
+}
+
+/**
+ * Reads characters from JSON, either `{ "characters": [...] }` (the export format) or a bare array.
+ * Missing ids are generated; reference images and cast library links are not part of the format.
+ */
+export const parseCharactersJson = (json: string): ParsedCharacters => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return { characters: [], errors: [`Invalid JSON syntax: ${e instanceof Error ? e.message : 'could not parse'}.`] };
+  }
+  const list = Array.isArray(parsed) ? parsed : parsed?.characters;
+  if (!Array.isArray(list)) {
+    return { characters: [], errors: ["Expected a \"characters\" array."] };
+  }
+
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+  const seenNames = new Set<string>();
+  const characters = list.map((item: any, i: number): Character => {
+    const label = typeof item?.name === 'string' && item.name.trim() ? `Character ${i + 1} ("${item.name.trim()}")` : `Character ${i + 1}`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`${label} is not an object.`);
+      return item;
+    }
+    CHARACTER_FIELDS.forEach(({ key, required }) => {
+      const value = item[key];
+      if (value === undefined || value === null) {
+        if (required) errors.push(`${label}: "${key}" is missing.`);
+      } else if (typeof value !== 'string') {
+        errors.push(`${label}: "${key}" must be text.`);
+      } else if (required && !value.trim()) {
+        errors.push(`${label}: "${key}" is empty.`);
+      }
+    });
+    if (item.id !== undefined && (typeof item.id !== 'string' || !item.id.trim())) {
+      errors.push(`${label}: "id" must be non-empty text.`);
+    } else if (item.id !== undefined && seenIds.has(item.id)) {
+      errors.push(`${label}: id "${item.id}" is used by an earlier character in the file.`);
+    }
+    if (typeof item.id === 'string') seenIds.add(item.id);
+    if (typeof item.name === 'string' && item.name.trim()) {
+      if (seenNames.has(item.name.trim().toLowerCase())) errors.push(`${label}: the name is used by an earlier character in the file.`);
+      seenNames.add(item.name.trim().toLowerCase());
+    }
+    return {
+      id: typeof item.id === 'string' && item.id.trim() ? item.id : crypto.randomUUID(),
+      name: String(item.name ?? '').trim(),
+      description: String(item.description ?? ''),
+      features: String(item.features ?? ''),
+      ...(typeof item.personality === 'string' && item.personality.trim() ? { personality: item.personality } : {}),
+    };
+  });
+
+  return errors.length > 0 ? { characters: [], errors } : { characters, errors: [] };
+};
+
+export const exportCharactersJson = (characters: Character[]) =>
+  JSON.stringify({ characters: characters.map(({ referenceImageUrl, libraryId, ...character }) => character) }, null, 2);
+
+export interface CharacterConflict {
+  incoming: Character;
+  existing: Character;
+  by: 'id' | 'name';
+}
+
+/** Incoming characters that share an id (or, failing that, a name) with one already in the cast. */
+export const findCharacterConflicts = (existing: Character[], incoming: Character[]): CharacterConflict[] =>
+  incoming.flatMap((c): CharacterConflict[] => {
+    const byId = existing.find(e => e.id === c.id);
+    if (byId) return [{ incoming: c, existing: byId, by: 'id' }];
+    const byName = existing.find(e => sameName(e.name, c.name));
+    return byName ? [{ incoming: c, existing: byName, by: 'name' }] : [];
+  });
+
+/**
+ * One error per existing character that more than one incoming character conflicts with
+ * (e.g. one by id, another by name). There is no telling which should win, so the import has to stop.
+ */
+export const findConflictErrors = (conflicts: CharacterConflict[]) => {
+  const byExisting = new Map<string, CharacterConflict[]>();
+  conflicts.forEach(c => byExisting.set(c.existing.id, [...(byExisting.get(c.existing.id) || []), c]));
+  return [...byExisting.values()]
+    .filter(group => group.length > 1)
+    .map(group => `${group.map(c => `"${c.incoming.name}"`).join(' and ')} match the same existing character "${group[0].existing.name}". Rename or re-id all but one of them.`);
+};
+
+// merge: the imported fields overwrite, anything the file leaves out (personality, reference image) is kept
+// replace: the imported character takes the place of the existing one entirely
+// skip: the existing character stays as it is
+export type ConflictResolution = 'merge' | 'replace' | 'skip';
+
+/**
+ * Adds the incoming characters to the cast, resolving conflicts as chosen. Conflicting characters
+ * keep the existing id so scenes stay linked to them. Check findConflictErrors first.
+ */
+export const importCharacters = (existing: Character[], incoming: Character[], resolution: ConflictResolution) => {
+  const conflicts = findCharacterConflicts(existing, incoming);
+  const resolved = new Map(conflicts.map(c => [c.existing.id, c.incoming]));
+  const conflicting = new Set(conflicts.map(c => c.incoming));
+
+  const updated = resolution === 'skip' ? existing : existing.map(character => {
+    const replacement = resolved.get(character.id);
+    if (!replacement) return character;
+    return resolution === 'merge'
+      ? { ...character, ...replacement, id: character.id }
+      : { ...replacement, id: character.id };
+  });
+  return [...updated, ...incoming.filter(c => !conflicting.has(c))];
+};
+
+/** Scenes whose visual prompt or script mentions the name as a whole word. */
+export const countNameMentions = (scenes: Scene[], name: string) => {
+  const pattern = new RegExp(`\\b${escapeRegExp(name.trim())}\\b`, 'i');
+  return scenes.filter(s => pattern.test(s.visualPrompt) || s.script.some(line => pattern.test(line.text))).length;
+};
+
+/** Replaces whole-word mentions of a renamed character in visual prompts and script lines. */
+export const renameInScenes = (scenes: Scene[], oldName: string, newName: string) => {
+  const pattern = new RegExp(`\\b${escapeRegExp(oldName.trim())}\\b`, 'gi');
+  const rename = (text: string) => text.replace(pattern, newName.trim());
+  return scenes.map(s => ({
+    ...s,
+    visualPrompt: rename(s.visualPrompt),
+    script: s.script.map(line => ({ ...line, text: rename(line.text) })),
+  }));
+};
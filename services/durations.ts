@@ -0,0 +1,66 @@
+import { Project, Scene, VideoType } from "../types";
+
+export const SHORTS_MAX_SECONDS = 60;
+export const DEFAULT_LONG_TARGET_SECONDS = 5 * 60;
+// A Long video under this fraction of its target is flagged as too short
+const LONG_MIN_RATIO = 0.75;
+const DEFAULT_SCENE_SECONDS = 3;
+
+/**
+ * Parses the free-form durations models (and older projects) use: "3s", "2.5 seconds", "0:05", "1 min 30s", "3-4s", 4.
+ * Ranges resolve to their midpoint. Unparseable values fall back to a default scene length.
+ */
+export const parseDuration = (value: unknown): number => {
+  if (typeof value === 'number' && isFinite(value) && value > 0) return value;
+  if (typeof value !== 'string') return DEFAULT_SCENE_SECONDS;
+
+  const text = value.trim().toLowerCase();
+  const clock = text.match(/^(\d+):(\d{1,2}(?:\.\d+)?)$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  // Minutes and seconds, before the rule below would take the two numbers for a range
+  const units = text.match(/^(\d+(?:\.\d+)?)\s*m(?:in(?:ute)?s?)?[\s,]*(?:and\s*)?(\d+(?:\.\d+)?)\s*s(?:ec(?:ond)?s?)?$/);
+  if (units) return Number(units[1]) * 60 + Number(units[2]);
+
+  const numbers = (text.match(/\d+(?:\.\d+)?/g) || []).map(Number);
+  if (numbers.length === 0) return DEFAULT_SCENE_SECONDS;
+  const seconds = numbers.length > 1 ? (numbers[0] + numbers[1]) / 2 : numbers[0];
+  const inMinutes = /\bmin/.test(text);
+  return seconds > 0 ? Math.round(seconds * (inMinutes ? 60 : 1) * 10) / 10 : DEFAULT_SCENE_SECONDS;
+};
+
+export const formatDuration = (seconds: number) => {
+  const rounded = Math.round(seconds * 10) / 10;
+  if (rounded < 60) return `${rounded}s`;
+  const minutes = Math.floor(rounded / 60);
+  const rest = Math.round(rounded - minutes * 60);
+  return `${minutes}:${String(rest).padStart(2, '0')}`;
+};
+
+/** A typed target runtime, kept to what the format allows; undefined when it isn't a number. */
+export const clampTargetRuntime = (value: string, type: VideoType) => {
+  const seconds = Math.round(Number(value));
+  if (!value.trim() || !isFinite(seconds)) return undefined;
+  return Math.max(1, type === VideoType.SHORT ? Math.min(seconds, SHORTS_MAX_SECONDS) : seconds);
+};
+
+export const totalDuration = (scenes: Scene[]) => scenes.reduce((sum, s) => sum + s.duration, 0);
+
+/** The runtime a project aims for: the user's target, or the format's default. */
+export const getTargetRuntime = (project: Project) =>
+  project.targetDurationSeconds ?? (project.type === VideoType.SHORT ? SHORTS_MAX_SECONDS : DEFAULT_LONG_TARGET_SECONDS);
+
+export const getRuntimeWarnings = (project: Project): string[] => {
+  const total = totalDuration(project.scenes);
+  const target = getTargetRuntime(project);
+  const warnings: string[] = [];
+
+  if (project.type === VideoType.SHORT && total > SHORTS_MAX_SECONDS) {
+    warnings.push(`Runtime ${formatDuration(total)} exceeds the ${SHORTS_MAX_SECONDS}s limit for YouTube Shorts.`);
+  } else if (project.type === VideoType.SHORT && target < SHORTS_MAX_SECONDS && total > target) {
+    warnings.push(`Runtime ${formatDuration(total)} is over the ${formatDuration(target)} target.`);
+  }
+  if (project.type === VideoType.LONG && project.scenes.length > 0 && total < target * LONG_MIN_RATIO) {
+    warnings.push(`Runtime ${formatDuration(total)} is far below the ${formatDuration(target)} target.`);
+  }
+  return warnings;
+};
@@ -0,0 +1,45 @@
+import { Scene } from "../types";
+
+// Helpers shared by every client-side export
+
+/** Turns a project name into something safe to use in a file name. */
+export const toFileSlug = (name: string) => name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
+
+/** Splits a base64 data URL into its mime type, file extension and raw base64 payload. */
+export const parseDataUrl = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*)?,(.*)$/);
+  if (!match) return null;
+  const mimeType = match[1];
+  const extension = mimeType.split('/')[1]?.replace('svg+xml', 'svg') || 'png';
+  return { mimeType, extension, base64: match[2] };
+};
+
+export const readFileAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+/**
+ * File name of a scene's preview in exports (scene_001.png). Scenes without a preview get a
+ * placeholder slug so timelines still reference something the editor can relink.
+ */
+export const sceneImageFileName = (scene: Scene) => {
+  const image = scene.generatedImageUrl ? parseDataUrl(scene.generatedImageUrl) : null;
+  const base = `scene_${String(scene.sceneNumber).padStart(3, '0')}`;
+  return image ? `${base}.${image.extension}` : `${base}_placeholder`;
+};
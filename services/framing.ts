@@ -0,0 +1,35 @@
+import { AspectRatio, Project, VideoType } from "../types";
+
+export const ASPECT_RATIOS: AspectRatio[] = ['9:16', '16:9', '1:1', '4:5', '21:9'];
+
+export const DEFAULT_ASPECT_RATIOS: Record<VideoType, AspectRatio> = {
+  [VideoType.SHORT]: '9:16',
+  [VideoType.LONG]: '16:9',
+};
+
+// Appended to preview prompts so the model composes for the frame, not just crops to it
+export const FRAMING_HINTS: Record<AspectRatio, string> = {
+  '9:16': 'Vertical 9:16 composition for mobile, subject centered in the middle of the frame with clear space at the top and bottom.',
+  '16:9': 'Horizontal 16:9 widescreen composition.',
+  '1:1': 'Square 1:1 composition, subject centered.',
+  '4:5': 'Portrait 4:5 composition, subject centered.',
+  '21:9': 'Ultra-wide 21:9 cinematic composition.',
+};
+
+// Regions covered by the YouTube Shorts player UI, as percentages of the frame
+export const SHORTS_UI_REGIONS = {
+  top: 12, // Search and menu
+  bottom: 22, // Title, channel, audio and subscribe
+  right: 16, // Like, comment, share and remix buttons
+};
+
+export const getAspectRatio = (project: Pick<Project, 'type' | 'aspectRatio'>): AspectRatio =>
+  project.aspectRatio || DEFAULT_ASPECT_RATIOS[project.type];
+
+export const isPortrait = (ratio: AspectRatio) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return h > w;
+};
+
+/** The ratio as a CSS `aspect-ratio` value. */
+export const toCssAspectRatio = (ratio: AspectRatio) => ratio.replace(':', ' / ');
@@ -1,176 +1,383 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Character, Scene, AnimationStyle, VideoType, ProjectIdea } from "../types";
+import { Character, Scene, StylePreset, VideoType, ProjectIdea, AISettings, AspectRatio, Beat, ScriptLine, ScriptLineType, Project } from "../types";
+import { getProvider, resolveAISettings, resolveModel, ResponseSchema } from "./providers";
+import { parseDuration } from "./durations";
+import { FRAMING_HINTS } from "./framing";
+import { findCharactersInText } from "./characters";
+import { createJsonArrayStreamParser } from "./streamingJson";
+import { SCRIPT_LINE_TYPES, createScriptLine, getScriptSpeakerIds, parseScriptText, scriptToText } from "./scriptLines";
+import { DEFAULT_STYLE_ID, describeStyle } from "./stylePresets";
+import { SeriesContext } from "./series";
 
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found in environment variables");
+// Public entry points keep their names; the actual backend is chosen by the provider settings
+
+const SCENES_SCHEMA: ResponseSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      sceneNumber: { type: 'integer' },
+      script: {
+        type: 'array',
+        description: "The scene's lines in the order they happen",
+        items: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: SCRIPT_LINE_TYPES.map(t => t.id),
+              description: "dialogue: spoken by a character; voiceover: narrator; text: on-screen text; action: stage direction"
+            },
+            text: { type: 'string' },
+            speakerId: { type: 'string', description: "Id of the speaking character, for dialogue lines only" }
+          },
+          required: ["type", "text"]
+        }
+      },
+      visualPrompt: { type: 'string', description: "Detailed prompt for video generation AI" },
+      duration: { type: 'number', description: "Estimated duration in seconds, e.g. 3" },
+      characterIds: { type: 'array', items: { type: 'string' }, description: "Ids of the characters in the scene" }
+    },
+    required: ["sceneNumber", "script", "visualPrompt", "duration", "characterIds"]
   }
-  return new GoogleGenAI({ apiKey });
 };
 
+// Script lines from the model; a plain string (older prompts, weaker models) is parsed like a migrated script.
+// Lines of an unknown type count as voiceover, and dialogue by an unknown speaker loses the speaker.
+const toScriptLines = (script: unknown, characters: Character[]): ScriptLine[] => {
+  if (typeof script === 'string') return parseScriptText(script, characters);
+  if (!Array.isArray(script)) return [];
+  const knownTypes = new Set<string>(SCRIPT_LINE_TYPES.map(t => t.id));
+  return script
+    .filter(line => line && typeof line.text === 'string')
+    .map(line => createScriptLine(
+      knownTypes.has(line.type) ? line.type as ScriptLineType : 'voiceover',
+      line.text,
+      characters.some(c => c.id === line.speakerId) ? line.speakerId : undefined
+    ));
+};
+
+// Turns a scene object from the model into a Scene with a fresh id.
+// Unknown character ids are dropped; without a usable cast, fall back to names mentioned in the scene.
+// Speakers always count as cast. Some models still answer durations like "3s".
+const toGeneratedScene = (item: any, characters: Character[]): Scene => {
+  const knownIds = new Set(characters.map(c => c.id));
+  const script = toScriptLines(item.script, characters);
+  const castIds: string[] = Array.isArray(item.characterIds) ? item.characterIds.filter((id: unknown) => knownIds.has(id as string)) : [];
+  const fallbackIds = castIds.length > 0 ? castIds : findCharactersInText(`${scriptToText(script, characters)} ${item.visualPrompt}`, characters).map(c => c.id);
+  return {
+    ...item,
+    script,
+    duration: parseDuration(item.duration),
+    characterIds: [...new Set([...fallbackIds, ...getScriptSpeakerIds(script)])],
+    id: crypto.randomUUID(),
+  };
+};
+
+// The preset's full definition, for system instructions
+const describeArtStyle = (style: StylePreset) => [
+  `${style.name}: ${describeStyle(style)}`,
+  style.negativePrompt.trim() && `Avoid: ${style.negativePrompt.trim()}`,
+].filter(Boolean).join('\n  ');
+
+const describeCharacters = (characters: Character[]) => characters
+  .map(c => `- ${c.name} (id: ${c.id}): ${c.description}. Visual features: ${c.features}. ${c.personality ? `Personality: ${c.personality}` : ''}`)
+  .join('\n');
+
+export interface SceneStreamOptions {
+  onScene?: (scene: Scene) => void; // Called for each scene as soon as it has fully arrived
+  signal?: AbortSignal; // Stops the stream; scenes received so far are kept
+  // Writes only the scenes for `beat`, with the rest of the outline as context
+  outline?: { beats: Beat[]; beat: Beat };
+  series?: SeriesContext; // Set for episodes, so they stay consistent with the earlier ones
+}
+
+const describeOutline = (beats: Beat[]) => beats
+  .map((b, i) => `${i + 1}. [Act ${b.act}] ${b.title}: ${b.summary}`)
+  .join('\n');
+
+const describeSeries = ({ name, bible, priorEpisodes }: SeriesContext) => [
+  `Series: ${name}`,
+  bible.trim() && `Series Bible:\n  ${bible.trim()}`,
+  priorEpisodes.length > 0
+    ? `Story So Far:\n  ${priorEpisodes.map(e => `Episode ${e.episodeNumber} "${e.name}": ${e.summary}`).join('\n  ')}`
+    : 'This is the first episode.',
+].filter(Boolean).join('\n\n  ');
+
+export interface GeneratedScenes {
+  scenes: Scene[];
+  // True when the stream was stopped or cut off before the model finished
+  interrupted: boolean;
+}
+
 export const generateStoryScenes = async (
   idea: string,
   characters: Character[],
-  style: AnimationStyle,
-  type: VideoType
-): Promise<Scene[]> => {
-  const ai = getClient();
-  
-  const characterContext = characters
-    .map(c => `- ${c.name}: ${c.description}. Visual features: ${c.features}. ${c.personality ? `Personality: ${c.personality}` : ''}`)
-    .join('\n');
+  style: StylePreset,
+  type: VideoType,
+  aiSettings?: Partial<AISettings>,
+  { onScene, signal, outline, series }: SceneStreamOptions = {}
+): Promise<GeneratedScenes> => {
+  const settings = resolveAISettings(aiSettings);
+
+  const characterContext = describeCharacters(characters);
+  // With an outline, each beat gets its share of the usual scene count
+  const sceneCount = outline
+    ? `Write the scenes for the requested beat ONLY, as one continuous part of the outline below.
+     - For Shorts: Generate about ${Math.max(3, Math.round(18 / outline.beats.length))} scenes for the beat.
+     - For Long videos: Generate about ${Math.max(5, Math.round(40 / outline.beats.length))} scenes for the beat.
+
+  Story Outline:
+  ${describeOutline(outline.beats)}`
+    : `- For Shorts: Generate at least 15-20 scenes.
+     - For Long videos: Generate at least 30-50 scenes.`;
 
   const systemInstruction = `You are an expert animation director and screenwriter for YouTube.
   Your task is to take a story idea and break it down into a highly DETAILED sequence of scenes.
   
   Format Constraints:
   - Video Type: ${type}
-  - Animation Style: ${style}
+  - Animation Style: ${describeArtStyle(style)}
   
   Characters Available:
   ${characterContext}
-  
+  ${series ? `
+  This video is an episode of a series. Stay consistent with the series bible and the earlier episodes:
+  call back to their events and keep running gags, relationships and character traits going.
+
+  ${describeSeries(series)}
+  ` : ''}
   Instructions:
   1. Create a compelling script suitable for the video type.
   2. **CRITICAL: Break the story down into as many scenes as possible to create a fluid visual flow. Do not summarize multiple actions into one scene. Every camera angle change or character action should be a new scene.**
-     - For Shorts: Generate at least 15-20 scenes.
-     - For Long videos: Generate at least 30-50 scenes.
+     ${sceneCount}
   3. For 'visualPrompt', write a highly detailed image generation prompt. 
      - IMPORTANT: You MUST inject the specific visual features of the characters (e.g., "Bella, a tall woman with long purple braid") into the prompt every time the character appears so the image generator knows how to draw them.
-     - Include the art style (${style}) in every visual prompt.
+     - Include the animation style's look (${describeStyle(style)}) in every visual prompt.
      - Describe lighting, camera angle, and background.
+  4. For 'characterIds', list the ids of every character visible or speaking in the scene (empty when none are).
+  5. Write 'script' as separate lines: 'dialogue' lines with the speaking character's id as 'speakerId', narrator 'voiceover',
+     on-screen 'text' and 'action' stage directions. Leave it empty for silent shots.
   
   Output MUST be a JSON array of objects.`;
 
+  const scenes: Scene[] = [];
+  const parse = createJsonArrayStreamParser();
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Story Idea: ${idea}`,
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              sceneNumber: { type: Type.INTEGER },
-              script: { type: Type.STRING, description: "The dialogue or voiceover text" },
-              visualPrompt: { type: Type.STRING, description: "Detailed prompt for video generation AI" },
-              duration: { type: Type.STRING, description: "Estimated duration e.g. '3s'" }
-            },
-            required: ["sceneNumber", "script", "visualPrompt", "duration"]
-          }
-        }
-      }
-    });
+    const stream = getProvider(settings.provider).streamText({
+      task: 'scenes',
+      model: resolveModel(settings, 'scenes'),
+      prompt: outline
+        ? `Story Idea: ${idea}\n\nBeat to write: ${outline.beat.title}: ${outline.beat.summary}`
+        : `Story Idea: ${idea}`,
+      systemInstruction: systemInstruction,
+      responseSchema: SCENES_SCHEMA,
+    }, settings, signal);
 
-    const jsonText = response.text || "[]";
-    const parsed = JSON.parse(jsonText);
-    
-    // Add unique IDs
-    return parsed.map((item: any) => ({
-      ...item,
-      id: crypto.randomUUID(),
-    }));
+    for await (const chunk of stream) {
+      parse(chunk).forEach(item => {
+        const scene = { ...toGeneratedScene(item, characters), beatId: outline?.beat.id };
+        scenes.push(scene);
+        onScene?.(scene);
+      });
+    }
+    return { scenes, interrupted: !!signal?.aborted };
 
   } catch (error) {
+    // A stream stopped or cut off part-way still leaves the scenes that completed
+    if (signal?.aborted || scenes.length > 0) {
+      if (!signal?.aborted) console.error("Scene stream interrupted:", error);
+      return { scenes, interrupted: true };
+    }
     console.error("Error generating scenes:", error);
     throw error;
   }
 };
 
-export const generateScenePreview = async (visualPrompt: string): Promise<string> => {
-  const ai = getClient();
-  
+// The style's look is appended even though visual prompts mention it, so edits to the preset apply
+// to prompts written before them. Characters in the shot with a reference sheet, and the style's
+// reference image, get sent along with the prompt.
+export const generateScenePreview = async (
+  visualPrompt: string,
+  aspectRatio: AspectRatio,
+  style: StylePreset,
+  aiSettings?: Partial<AISettings>,
+  characters: Character[] = []
+): Promise<string> => {
+  const settings = resolveAISettings(aiSettings);
+
   try {
-    // Using gemini-2.5-flash-image (Nano Banana) for fast preview generation
-    // Ideally user might use a higher quality model, but for preview/storyboard, this is efficient.
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image",
-      contents: visualPrompt,
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9", // Defaulting to 16:9 for preview usually looks better, or could match video type
-          // Nano Banana doesn't support 'imageSize' config, so we omit it.
+    return await getProvider(settings.provider).generateImage({
+      model: resolveModel(settings, 'image'),
+      prompt: [
+        visualPrompt,
+        `Style: ${describeStyle(style)}`,
+        style.negativePrompt.trim() && `Avoid: ${style.negativePrompt.trim()}`,
+        `Framing: ${FRAMING_HINTS[aspectRatio]}`,
+      ].filter(Boolean).join('\n\n'),
+      aspectRatio,
+      referenceImages: [
+        ...characters
+          .filter(c => c.referenceImageUrl)
+          .map(c => ({ label: c.name, dataUrl: c.referenceImageUrl! })),
+        ...(style.referenceImageUrl ? [{ label: `${style.name} style`, dataUrl: style.referenceImageUrl }] : []),
+      ],
+    }, settings);
+
+  } catch (error) {
+    console.error("Error generating image preview:", error);
+    throw error;
+  }
+};
+
+export const generateCharacterSheet = async (
+  character: Character,
+  style: StylePreset,
+  aiSettings?: Partial<AISettings>
+): Promise<string> => {
+  const settings = resolveAISettings(aiSettings);
+
+  try {
+    return await getProvider(settings.provider).generateImage({
+      model: resolveModel(settings, 'image'),
+      prompt: `Character reference sheet for ${character.name}, ${style.name} style: ${describeStyle(style)}.
+      ${character.description}. Visual features: ${character.features}.
+      Show a front, three-quarter, side and back view in a neutral standing pose, full body,
+      plus a few facial expressions, on a plain light background. No text or labels.`,
+      aspectRatio: '16:9',
+      referenceImages: style.referenceImageUrl ? [{ label: `${style.name} style`, dataUrl: style.referenceImageUrl }] : [],
+    }, settings);
+
+  } catch (error) {
+    console.error("Error generating character sheet:", error);
+    throw error;
+  }
+};
+
+/**
+ * Drafts an act/beat outline for the story (hook, setup, conflict, twist, payoff and so on).
+ */
+export const generateOutline = async (
+  idea: string,
+  characters: Character[],
+  type: VideoType,
+  aiSettings?: Partial<AISettings>
+): Promise<Beat[]> => {
+  const settings = resolveAISettings(aiSettings);
+
+  const systemInstruction = `You are a story editor outlining an animated YouTube video before it is storyboarded.
+  Video Type: ${type}
+
+  Characters Available:
+  ${describeCharacters(characters)}
+
+  Instructions:
+  1. Break the story idea into acts (1 to 3) and beats, in story order.
+  2. Cover at least a hook, setup, conflict, twist and payoff; Long videos may need a few more beats.
+  3. Give each beat a short title and a one or two sentence summary of what happens.`;
+
+  try {
+    const responseText = await getProvider(settings.provider).generateText({
+      task: 'outline',
+      model: resolveModel(settings, 'outline'),
+      prompt: `Story Idea: ${idea}`,
+      systemInstruction: systemInstruction,
+      responseSchema: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            act: { type: 'integer', description: "1-based act number" },
+            title: { type: 'string', description: "Beat name, e.g. Hook" },
+            summary: { type: 'string', description: "What happens in this beat" }
+          },
+          required: ["act", "title", "summary"]
         }
       }
-    });
+    }, settings);
 
-    // Extract image
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    
-    throw new Error("No image generated");
+    const parsed: { act: unknown; title: unknown; summary: unknown }[] = JSON.parse(responseText || "[]");
+    return parsed.map(item => ({
+      id: crypto.randomUUID(),
+      act: Math.max(1, Math.round(Number(item.act)) || 1),
+      title: String(item.title || 'Untitled beat'),
+      summary: String(item.summary || ''),
+    }));
 
   } catch (error) {
-    console.error("Error generating image preview:", error);
+    console.error("Error generating outline:", error);
     throw error;
   }
 };
 
-export const generateProjectIdea = async (topic?: string): Promise<ProjectIdea> => {
-  const ai = getClient();
-  const validStyles = Object.values(AnimationStyle).join(', ');
+/** Suggests a project, or the next episode of `series`; the style is picked from the given presets by id. */
+export const generateProjectIdea = async (
+  topic: string | undefined,
+  styles: StylePreset[],
+  aiSettings?: Partial<AISettings>,
+  series?: SeriesContext
+): Promise<ProjectIdea> => {
+  const settings = resolveAISettings(aiSettings);
+  const validStyles = styles.map(s => `- ${s.id}: ${describeArtStyle(s)}`).join('\n  ');
   const validTypes = Object.values(VideoType).join(', ');
 
   const systemInstruction = `You are a YouTube creative strategist and trend analyst. 
   Your goal is to brainstorm a high-potential, viral animation project idea.
   
   Constraints:
-  - Allowed Styles: ${validStyles}
   - Allowed Types: ${validTypes}
+  - Allowed Styles (by id):
+  ${validStyles}
   
   Instructions:
   1. Analyze current trends or use the provided topic to create a concept.
   2. Create a catchy 'name' for the project.
   3. Write a brief 'storyIdea' (plot summary).
-  4. Select the best 'type' and 'style' from the allowed lists.
-  5. Create a set of unique 'characters' (2-4 characters) with detailed visual descriptions suitable for AI image generation.`;
+  4. Select the best 'type' from the allowed types and the id of the best style as 'styleId'.
+  5. Create a set of unique 'characters' (2-4 characters) with detailed visual descriptions suitable for AI image generation.${series ? `
+
+  The idea is the next episode of a series. It must follow on from the earlier episodes without retelling them,
+  respect the series bible, and may call back to earlier events and running gags.
+  Reuse the series' recurring characters by name rather than inventing replacements.
+
+  ${describeSeries(series)}` : ''}`;
 
   const userPrompt = topic 
     ? `Generate a project idea based on this topic: "${topic}".`
     : `Generate a trending, viral animation project idea (e.g., horror, comedy, parody, cute animals, or sci-fi).`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: userPrompt,
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            storyIdea: { type: Type.STRING },
-            type: { type: Type.STRING, enum: Object.values(VideoType) },
-            style: { type: Type.STRING, enum: Object.values(AnimationStyle) },
-            characters: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  description: { type: Type.STRING },
-                  features: { type: Type.STRING },
-                  personality: { type: Type.STRING }
-                },
-                required: ["id", "name", "description", "features"]
-              }
+    const responseText = await getProvider(settings.provider).generateText({
+      task: 'idea',
+      model: resolveModel(settings, 'idea'),
+      prompt: userPrompt,
+      systemInstruction: systemInstruction,
+      responseSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          storyIdea: { type: 'string' },
+          type: { type: 'string', enum: Object.values(VideoType) },
+          styleId: { type: 'string', enum: styles.map(s => s.id) },
+          characters: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                description: { type: 'string' },
+                features: { type: 'string' },
+                personality: { type: 'string' }
+              },
+              required: ["id", "name", "description", "features"]
             }
-          },
-          required: ["name", "storyIdea", "type", "style", "characters"]
-        }
+          }
+        },
+        required: ["name", "storyIdea", "type", "styleId", "characters"]
       }
-    });
+    }, settings);
 
-    const idea = JSON.parse(response.text || "{}");
+    const idea = JSON.parse(responseText || "{}");
     
     // Ensure character IDs are unique if the model didn't generate unique ones
     if (idea.characters) {
@@ -179,6 +386,10 @@ export const generateProjectIdea = async (topic?: string): Promise<ProjectIdea>
         id: c.id || crypto.randomUUID()
       }));
     }
+    // Providers without enum support may answer with a style name or a made-up id
+    if (!styles.some(s => s.id === idea.styleId)) {
+      idea.styleId = styles.find(s => s.name === idea.styleId)?.id || DEFAULT_STYLE_ID;
+    }
 
     return idea as ProjectIdea;
 
@@ -186,4 +397,178 @@ export const generateProjectIdea = async (topic?: string): Promise<ProjectIdea>
     console.error("Error generating project idea:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Asks the model for new per-scene durations (in seconds, in scene order) that add up to the target runtime.
+ */
+export const rebalanceSceneDurations = async (
+  scenes: Scene[],
+  characters: Character[],
+  targetSeconds: number,
+  type: VideoType,
+  aiSettings?: Partial<AISettings>
+): Promise<number[]> => {
+  const settings = resolveAISettings(aiSettings);
+
+  const systemInstruction = `You are an animation editor timing a storyboard for YouTube.
+  Video Type: ${type}
+
+  Instructions:
+  1. Assign every scene a new duration in seconds so that the durations add up to the target runtime.
+  2. Give scenes with dialogue or voiceover enough time to be spoken aloud at a natural pace.
+  3. Keep quick reaction or action shots short and let establishing or emotional shots breathe.
+  4. Return exactly one entry per scene, in the same order, with the original sceneNumber.`;
+
+  const sceneList = scenes
+    .map(s => `Scene ${s.sceneNumber} (currently ${s.duration}s): "${scriptToText(s.script, characters, ' / ')}" | Visual: ${s.visualPrompt}`)
+    .join('\n');
+
+  try {
+    const responseText = await getProvider(settings.provider).generateText({
+      task: 'rebalance',
+      model: resolveModel(settings, 'rebalance'),
+      prompt: `Target runtime: ${targetSeconds}s\n\n${sceneList}`,
+      systemInstruction: systemInstruction,
+      responseSchema: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            sceneNumber: { type: 'integer' },
+            duration: { type: 'number', description: "New duration in seconds" }
+          },
+          required: ["sceneNumber", "duration"]
+        }
+      }
+    }, settings);
+
+    const parsed: { sceneNumber: number; duration: unknown }[] = JSON.parse(responseText || "[]");
+    const bySceneNumber = new Map(parsed.map(item => [item.sceneNumber, parseDuration(item.duration)]));
+    // Scenes the model skipped keep their current duration
+    return scenes.map(s => bySceneNumber.get(s.sceneNumber) ?? s.duration);
+
+  } catch (error) {
+    console.error("Error rebalancing durations:", error);
+    throw error;
+  }
+};
+
+// Scenes on either side of a rewrite that are sent along for continuity
+const REWRITE_CONTEXT_SCENES = 2;
+
+// Scenes in the same shape the model answers with
+const toPromptScene = ({ sceneNumber, script, visualPrompt, duration, characterIds }: Scene) => ({
+  sceneNumber,
+  script: script.map(({ type, text, characterId }) => ({ type, text, speakerId: characterId })),
+  visualPrompt,
+  duration,
+  characterIds,
+});
+
+/**
+ * Rewrites scenes[start..end] (inclusive) following the instruction. Resolves to the replacement
+ * scenes, which may be more or fewer than the originals; nothing is applied to the project.
+ */
+export const rewriteScenes = async (
+  scenes: Scene[],
+  start: number,
+  end: number,
+  instruction: string,
+  characters: Character[],
+  style: StylePreset,
+  type: VideoType,
+  aiSettings?: Partial<AISettings>
+): Promise<Scene[]> => {
+  const settings = resolveAISettings(aiSettings);
+
+  const systemInstruction = `You are an expert animation director and screenwriter revising part of a storyboard for YouTube.
+
+  Format Constraints:
+  - Video Type: ${type}
+  - Animation Style: ${describeArtStyle(style)}
+
+  Characters Available:
+  ${describeCharacters(characters)}
+
+  Instructions:
+  1. Rewrite ONLY the scenes marked for rewriting, following the user's instruction.
+  2. You may return more or fewer scenes than you were given when the instruction calls for it (e.g. splitting a shot).
+  3. Keep continuity with the scenes before and after: names, locations, props, time of day and tone must match.
+  4. Keep the same 'visualPrompt' conventions: inject the characters' visual features, the animation style's look (${describeStyle(style)}), lighting, camera angle and background.
+  5. For 'characterIds', list the ids of every character visible or speaking in the scene.
+  6. Keep 'script' as typed lines: 'dialogue' with a 'speakerId', 'voiceover', on-screen 'text' or 'action'.
+
+  Output MUST be a JSON array of the replacement scenes only.`;
+
+  const before = scenes.slice(Math.max(0, start - REWRITE_CONTEXT_SCENES), start).map(toPromptScene);
+  const selected = scenes.slice(start, end + 1).map(toPromptScene);
+  const after = scenes.slice(end + 1, end + 1 + REWRITE_CONTEXT_SCENES).map(toPromptScene);
+
+  try {
+    const responseText = await getProvider(settings.provider).generateText({
+      task: 'rewrite',
+      model: resolveModel(settings, 'rewrite'),
+      prompt: `Instruction: ${instruction}
+
+Scenes before (context only, do not return): ${JSON.stringify(before)}
+
+SCENES TO REWRITE: ${JSON.stringify(selected)}
+
+Scenes after (context only, do not return): ${JSON.stringify(after)}`,
+      systemInstruction: systemInstruction,
+      responseSchema: SCENES_SCHEMA,
+    }, settings);
+
+    const parsed = JSON.parse(responseText || "[]");
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new Error("The model returned no replacement scenes");
+    }
+    return parsed.map((item: any) => toGeneratedScene(item, characters));
+
+  } catch (error) {
+    console.error("Error rewriting scenes:", error);
+    throw error;
+  }
+};
+
+/**
+ * A short "story so far" recap of an episode, passed to the episodes after it.
+ */
+export const summarizeEpisode = async (project: Project, aiSettings?: Partial<AISettings>): Promise<string> => {
+  const settings = resolveAISettings(aiSettings);
+
+  const systemInstruction = `You are a script supervisor keeping the continuity notes of an animated series.
+  Summarize the episode for the writers of the next episodes.
+
+  Instructions:
+  1. Retell what happens in 3 to 5 sentences, in story order, naming the characters involved.
+  2. Note anything later episodes may call back to: running gags, promises, new relationships, lost or gained objects, unresolved threads.
+  3. Describe only what is in the scenes; don't invent events.`;
+
+  const sceneList = project.scenes
+    .map(s => `Scene ${s.sceneNumber}: "${scriptToText(s.script, project.characters, ' / ')}" | Visual: ${s.visualPrompt}`)
+    .join('\n');
+
+  try {
+    const responseText = await getProvider(settings.provider).generateText({
+      task: 'summary',
+      model: resolveModel(settings, 'summary'),
+      prompt: `Episode: ${project.name}\nStory Idea: ${project.storyIdea}\n\n${sceneList}`,
+      systemInstruction: systemInstruction,
+      responseSchema: {
+        type: 'object',
+        properties: {
+          summary: { type: 'string', description: "The recap, as plain prose" }
+        },
+        required: ["summary"]
+      }
+    }, settings);
+
+    return String(JSON.parse(responseText || "{}").summary || '').trim();
+
+  } catch (error) {
+    console.error("Error summarizing episode:", error);
+    throw error;
+  }
+};
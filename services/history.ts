@@ -0,0 +1,57 @@
+import { Project } from "../types";
+
+// Per-project undo/redo stack. Each entry is a full project snapshot; updates are
+// immutable, so unchanged scenes, characters and image strings are shared between entries.
+
+const MAX_ENTRIES = 100;
+// Repeated edits with the same label (e.g. typing in the plot box) collapse into one entry
+const COALESCE_MS = 1500;
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  project: Project;
+}
+
+export interface ProjectHistory {
+  entries: HistoryEntry[];
+  index: number; // entries[index] is the current state
+}
+
+const createEntry = (project: Project, label: string): HistoryEntry => ({
+  id: crypto.randomUUID(),
+  label,
+  timestamp: Date.now(),
+  project,
+});
+
+export const createHistory = (project: Project): ProjectHistory => ({
+  entries: [createEntry(project, 'Opened project')],
+  index: 0,
+});
+
+/** Records a new state, discarding anything that could have been redone. */
+export const pushHistory = (history: ProjectHistory, project: Project, label: string): ProjectHistory => {
+  const current = history.entries[history.index];
+  const isLatest = history.index === history.entries.length - 1;
+  if (isLatest && history.index > 0 && current.label === label && Date.now() - current.timestamp < COALESCE_MS) {
+    const entries = [...history.entries];
+    entries[history.index] = { ...current, project, timestamp: Date.now() };
+    return { entries, index: history.index };
+  }
+
+  const entries = [...history.entries.slice(0, history.index + 1), createEntry(project, label)].slice(-MAX_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+export const canUndo = (history?: ProjectHistory) => !!history && history.index > 0;
+export const canRedo = (history?: ProjectHistory) => !!history && history.index < history.entries.length - 1;
+
+export const jumpTo = (history: ProjectHistory, index: number): ProjectHistory => ({
+  ...history,
+  index: Math.max(0, Math.min(index, history.entries.length - 1)),
+});
+
+export const undo = (history: ProjectHistory) => jumpTo(history, history.index - 1);
+export const redo = (history: ProjectHistory) => jumpTo(history, history.index + 1);
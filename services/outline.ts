@@ -0,0 +1,79 @@
+import { Beat, Scene } from "../types";
+import { renumberScenes } from "./sceneOperations";
+
+// Pure helpers for the story outline. Scenes point at their beat through `beatId`;
+// scenes without one (or whose beat was deleted) stay wherever they are.
+
+export const DEFAULT_BEAT_TITLES = ['Hook', 'Setup', 'Conflict', 'Twist', 'Payoff'];
+
+export const createBeat = (act: number, title = 'New beat'): Beat => ({
+  id: crypto.randomUUID(),
+  act,
+  title,
+  summary: '',
+});
+
+export const getBeatScenes = (scenes: Scene[], beatId: string) => scenes.filter(s => s.beatId === beatId);
+
+/**
+ * Sorts scenes into beat order, keeping their order within a beat. A scene without a known
+ * beat travels with the scene before it.
+ */
+export const orderScenesByBeats = (scenes: Scene[], beats: Beat[]): Scene[] => {
+  const beatIndex = new Map(beats.map((b, i) => [b.id, i]));
+  let previousKey = -1;
+  const keyed = scenes.map((scene, i) => {
+    const key = scene.beatId !== undefined && beatIndex.has(scene.beatId) ? beatIndex.get(scene.beatId)! : previousKey;
+    previousKey = key;
+    return { scene, key, i };
+  });
+  keyed.sort((a, b) => a.key - b.key || a.i - b.i);
+  return renumberScenes(keyed.map(k => k.scene));
+};
+
+export const moveBeat = (beats: Beat[], fromIndex: number, toIndex: number): Beat[] => {
+  if (toIndex < 0 || toIndex >= beats.length || fromIndex === toIndex) return beats;
+  const reordered = [...beats];
+  const [moved] = reordered.splice(fromIndex, 1);
+  reordered.splice(toIndex, 0, moved);
+  return reordered;
+};
+
+/** Where a beat's scenes belong: at its first scene, or after the scenes of earlier beats. */
+const beatInsertIndex = (scenes: Scene[], beats: Beat[], beatId: string) => {
+  const first = scenes.findIndex(s => s.beatId === beatId);
+  if (first !== -1) return first;
+  const earlier = new Set(beats.slice(0, beats.findIndex(b => b.id === beatId)).map(b => b.id));
+  const known = new Set(beats.map(b => b.id));
+  let index = 0;
+  scenes.forEach((s, i) => {
+    if (s.beatId !== undefined && earlier.has(s.beatId)) index = i + 1;
+  });
+  // Scenes without a beat travel with the ones before them
+  if (index > 0) {
+    while (index < scenes.length && !(scenes[index].beatId !== undefined && known.has(scenes[index].beatId!))) index++;
+  }
+  return index;
+};
+
+/**
+ * Places a freshly generated scene for a beat. The first one (afterId null) replaces the beat's
+ * existing scenes; later ones go right after the previous scene of the same run.
+ */
+export const placeBeatScene = (scenes: Scene[], beats: Beat[], beatId: string, scene: Scene, afterId: string | null): Scene[] => {
+  if (afterId === null) {
+    const index = beatInsertIndex(scenes, beats, beatId);
+    const before = scenes.slice(0, index).filter(s => s.beatId !== beatId);
+    const after = scenes.slice(index).filter(s => s.beatId !== beatId);
+    return renumberScenes([...before, scene, ...after]);
+  }
+  const index = scenes.findIndex(s => s.id === afterId);
+  const at = index === -1 ? scenes.length : index + 1;
+  return renumberScenes([...scenes.slice(0, at), scene, ...scenes.slice(at)]);
+};
+
+/** Removes a beat; its scenes are kept without a beat. */
+export const removeBeat = (beats: Beat[], scenes: Scene[], beatId: string) => ({
+  beats: beats.filter(b => b.id !== beatId),
+  scenes: scenes.map(s => s.beatId === beatId ? { ...s, beatId: undefined } : s),
+});
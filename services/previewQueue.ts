@@ -0,0 +1,181 @@
+// Job queue for preview generation. It lives outside any component so batches keep
+// running while the user moves between the dashboard and a workspace.
+
+export type PreviewJobStatus = 'queued' | 'running' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export interface PreviewJob {
+  id: string;
+  projectId: string;
+  sceneId: string;
+  label: string; // e.g. "Scene 4", shown in the queue panel
+  status: PreviewJobStatus;
+  attempts: number;
+  error?: string;
+  retryAt?: number; // Set while waiting out a rate-limit backoff
+}
+
+export interface PreviewQueueState {
+  jobs: PreviewJob[];
+  paused: boolean;
+  concurrency: number;
+}
+
+export type PreviewJobRequest = Pick<PreviewJob, 'projectId' | 'sceneId' | 'label'>;
+
+// Resolves once the preview has been applied. `signal` is aborted when the job is cancelled;
+// providers can't abort a request in flight, so the runner should drop its result instead.
+export type PreviewJobRunner = (job: PreviewJob, signal: AbortSignal) => Promise<void>;
+
+export const MAX_CONCURRENCY = 4;
+const CONCURRENCY_KEY = 'aniscript_preview_concurrency';
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2000;
+
+export const isActiveJob = (job: PreviewJob) => job.status === 'queued' || job.status === 'running' || job.status === 'waiting';
+
+const isRateLimitError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|rate.?limit|resource.?exhausted|quota|too many requests/i.test(message);
+};
+
+const loadConcurrency = () => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return stored >= 1 && stored <= MAX_CONCURRENCY ? stored : 2;
+};
+
+export const createPreviewQueue = (run: PreviewJobRunner, onChange: (state: PreviewQueueState) => void) => {
+  let state: PreviewQueueState = { jobs: [], paused: false, concurrency: loadConcurrency() };
+  const controllers = new Map<string, AbortController>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const updateJob = (id: string, changes: Partial<PreviewJob>) => {
+    state = { ...state, jobs: state.jobs.map(j => j.id === id ? { ...j, ...changes } : j) };
+  };
+
+  const commit = () => {
+    pump();
+    onChange(state);
+  };
+
+  const start = async (job: PreviewJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    updateJob(job.id, { status: 'running', attempts: job.attempts + 1, error: undefined, retryAt: undefined });
+    try {
+      await run(job, controller.signal);
+      if (!controller.signal.aborted) updateJob(job.id, { status: 'done' });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const attempts = job.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+      if (isRateLimitError(error) && attempts < MAX_ATTEMPTS) {
+        // Exponential backoff with jitter so parallel jobs don't retry in lockstep
+        const delay = BASE_BACKOFF_MS * 2 ** (attempts - 1) * (1 + Math.random() * 0.25);
+        updateJob(job.id, { status: 'waiting', error: message, retryAt: Date.now() + delay });
+        timers.set(job.id, setTimeout(() => {
+          timers.delete(job.id);
+          if (state.jobs.find(j => j.id === job.id)?.status === 'waiting') {
+            updateJob(job.id, { status: 'queued', retryAt: undefined });
+            commit();
+          }
+        }, delay));
+      } else {
+        updateJob(job.id, { status: 'failed', error: message, retryAt: undefined });
+      }
+    } finally {
+      controllers.delete(job.id);
+      commit();
+    }
+  };
+
+  const pump = () => {
+    if (state.paused) return;
+    let running = state.jobs.filter(j => j.status === 'running').length;
+    for (const job of state.jobs) {
+      if (running >= state.concurrency) break;
+      if (job.status !== 'queued') continue;
+      running++;
+      start(job);
+    }
+  };
+
+  const stop = (job: PreviewJob) => {
+    controllers.get(job.id)?.abort();
+    clearTimeout(timers.get(job.id));
+    timers.delete(job.id);
+  };
+
+  return {
+    getState: () => state,
+
+    /** Queues previews; scenes that already have an active job are skipped. */
+    enqueue: (requests: PreviewJobRequest[]) => {
+      const active = new Set(state.jobs.filter(isActiveJob).map(j => j.sceneId));
+      const jobs = requests
+        .filter(r => !active.has(r.sceneId))
+        .map((r): PreviewJob => ({ ...r, id: crypto.randomUUID(), status: 'queued', attempts: 0 }));
+      // A new request for a scene replaces its finished, failed or cancelled job
+      const replaced = new Set(jobs.map(j => j.sceneId));
+      state = { ...state, jobs: [...state.jobs.filter(j => isActiveJob(j) || !replaced.has(j.sceneId)), ...jobs] };
+      commit();
+    },
+
+    cancel: (jobId: string) => {
+      const job = state.jobs.find(j => j.id === jobId);
+      if (!job || !isActiveJob(job)) return;
+      stop(job);
+      updateJob(jobId, { status: 'cancelled', retryAt: undefined });
+      commit();
+    },
+
+    /** Cancels every active job, or only those of one project. */
+    cancelAll: (projectId?: string) => {
+      state.jobs.filter(j => isActiveJob(j) && (!projectId || j.projectId === projectId)).forEach(job => {
+        stop(job);
+        updateJob(job.id, { status: 'cancelled', retryAt: undefined });
+      });
+      commit();
+    },
+
+    retry: (jobId: string) => {
+      const job = state.jobs.find(j => j.id === jobId);
+      if (!job || isActiveJob(job)) return;
+      updateJob(jobId, { status: 'queued', attempts: 0, error: undefined });
+      commit();
+    },
+
+    retryFailed: () => {
+      state.jobs.filter(j => j.status === 'failed').forEach(j => updateJob(j.id, { status: 'queued', attempts: 0, error: undefined }));
+      commit();
+    },
+
+    pause: () => {
+      state = { ...state, paused: true };
+      commit();
+    },
+
+    resume: () => {
+      state = { ...state, paused: false };
+      commit();
+    },
+
+    setConcurrency: (concurrency: number) => {
+      state = { ...state, concurrency: Math.max(1, Math.min(MAX_CONCURRENCY, concurrency)) };
+      localStorage.setItem(CONCURRENCY_KEY, String(state.concurrency));
+      commit();
+    },
+
+    /** Forgets finished and cancelled jobs; failed ones stay until retried or dismissed. */
+    clearFinished: () => {
+      state = { ...state, jobs: state.jobs.filter(j => j.status !== 'done' && j.status !== 'cancelled') };
+      commit();
+    },
+
+    dismiss: (jobId: string) => {
+      state = { ...state, jobs: state.jobs.filter(j => j.id !== jobId || isActiveJob(j)) };
+      commit();
+    },
+  };
+};
+
+export type PreviewQueue = ReturnType<typeof createPreviewQueue>;
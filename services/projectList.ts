@@ -0,0 +1,121 @@
+import { Beat, Character, Project, Scene, VideoType } from "../types";
+
+// Searching, filtering, sorting, tagging and duplicating projects on the dashboard
+
+export type ProjectSort = 'created-desc' | 'created-asc' | 'updated-desc' | 'scenes-desc';
+
+export const PROJECT_SORTS: { id: ProjectSort; label: string }[] = [
+  { id: 'created-desc', label: 'Newest first' },
+  { id: 'created-asc', label: 'Oldest first' },
+  { id: 'updated-desc', label: 'Recently updated' },
+  { id: 'scenes-desc', label: 'Most scenes' },
+];
+
+export interface ProjectFilters {
+  query: string; // Matched against the name and story idea
+  type: VideoType | ''; // Empty for any
+  styleId: string; // Empty for any
+  tag: string; // Empty for any
+  archived: boolean; // Shows the archived projects instead of the active ones
+}
+
+export const DEFAULT_PROJECT_FILTERS: ProjectFilters = { query: '', type: '', styleId: '', tag: '', archived: false };
+
+/** Whether anything narrows the list beyond the active/archived split. */
+export const hasActiveFilters = ({ query, type, styleId, tag }: ProjectFilters) => !!(query.trim() || type || styleId || tag);
+
+/** Every word of the query has to appear in the name or story idea (case-insensitive). */
+const matchesQuery = (project: Project, query: string) => {
+  const text = `${project.name} ${project.storyIdea}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => text.includes(word));
+};
+
+export const filterProjects = (projects: Project[], filters: ProjectFilters) => projects.filter(p =>
+  !!p.archived === filters.archived
+  && (!filters.type || p.type === filters.type)
+  && (!filters.styleId || p.styleId === filters.styleId)
+  && (!filters.tag || (p.tags || []).includes(filters.tag))
+  && matchesQuery(p, filters.query)
+);
+
+export const sortProjects = (projects: Project[], sort: ProjectSort) => [...projects].sort((a, b) => {
+  switch (sort) {
+    case 'created-asc': return a.createdAt - b.createdAt;
+    case 'updated-desc': return b.updatedAt - a.updatedAt;
+    case 'scenes-desc': return b.scenes.length - a.scenes.length || b.createdAt - a.createdAt;
+    default: return b.createdAt - a.createdAt;
+  }
+});
+
+/** Tags are trimmed and lower-cased, so "Horror" and "horror " are the same tag. */
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const addTag = (project: Project, tag: string): Project => {
+  const normalized = normalizeTag(tag);
+  const tags = project.tags || [];
+  return !normalized || tags.includes(normalized) ? project : { ...project, tags: [...tags, normalized] };
+};
+
+export const removeTag = (project: Project, tag: string): Project => ({
+  ...project,
+  tags: (project.tags || []).filter(t => t !== tag),
+});
+
+/** Every tag in use, alphabetically. */
+export const getAllTags = (projects: Project[]) =>
+  [...new Set(projects.flatMap(p => p.tags || []))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * A deep copy of the project under new ids: project, characters, scenes, script lines, beats and snapshots.
+ * References between them (scene casts, speakers, beats) follow the new ids; cast library links are kept.
+ * Pass the project with its images loaded, or the copy has none. The copy is never an episode of a series.
+ */
+export const duplicateProject = (project: Project, name: string): Project => {
+  const idMaps = { characters: new Map<string, string>(), scenes: new Map<string, string>(), beats: new Map<string, string>() };
+  // Snapshots can hold scenes and characters the project no longer has, so ids are mapped as they come up
+  const remap = (map: Map<string, string>, id: string) => {
+    if (!map.has(id)) map.set(id, crypto.randomUUID());
+    return map.get(id)!;
+  };
+  const copyCharacter = (c: Character): Character => ({ ...c, id: remap(idMaps.characters, c.id) });
+  const copyBeat = (b: Beat): Beat => ({ ...b, id: remap(idMaps.beats, b.id) });
+  const copyScene = (s: Scene): Scene => ({
+    ...s,
+    id: remap(idMaps.scenes, s.id),
+    characterIds: s.characterIds.map(id => remap(idMaps.characters, id)),
+    beatId: s.beatId && remap(idMaps.beats, s.beatId),
+    script: s.script.map(line => ({
+      ...line,
+      id: crypto.randomUUID(),
+      characterId: line.characterId && remap(idMaps.characters, line.characterId),
+    })),
+  });
+
+  const { seriesId, episodeNumber, archived, ...rest } = project;
+  const now = Date.now();
+  return {
+    ...rest,
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    characters: project.characters.map(copyCharacter),
+    beats: project.beats?.map(copyBeat),
+    scenes: project.scenes.map(s => ({ ...copyScene(s), isGeneratingImage: undefined })),
+    snapshots: project.snapshots?.map(snapshot => ({
+      ...snapshot,
+      id: crypto.randomUUID(),
+      characters: snapshot.characters.map(copyCharacter),
+      beats: snapshot.beats?.map(copyBeat),
+      scenes: snapshot.scenes.map(copyScene),
+    })),
+  };
+};
+
+/** "Name (copy)", or "Name (copy 2)" and so on when that's taken. */
+export const getCopyName = (name: string, projects: Project[]) => {
+  const taken = new Set(projects.map(p => p.name));
+  let copyName = `${name} (copy)`;
+  for (let n = 2; taken.has(copyName); n++) copyName = `${name} (copy ${n})`;
+  return copyName;
+};
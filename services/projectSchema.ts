@@ -0,0 +1,187 @@
+import { Project, VideoType } from "../types";
+import { parseDuration } from "./durations";
+import { findCharactersInText } from "./characters";
+import { SCRIPT_LINE_TYPES, parseScriptText } from "./scriptLines";
+import { DEFAULT_STYLE_ID, LEGACY_STYLE_IDS } from "./stylePresets";
+
+// Bump whenever the persisted shape of `Project` changes, and add an upgrade step below.
+// Stored projects and imported bundles are both run through `upgradeProject`.
+export const PROJECT_SCHEMA_VERSION = 6;
+
+// UPGRADES[n] turns a version n project into a version n + 1 project
+const UPGRADES: Record<number, (project: any) => any> = {
+  // v2: Scene.duration went from free-form strings ("3s") to seconds
+  1: (project) => {
+    const upgradeScenes = (scenes: any[] = []) => scenes.map(s => ({ ...s, duration: parseDuration(s.duration) }));
+    return {
+      ...project,
+      scenes: upgradeScenes(project.scenes),
+      snapshots: project.snapshots?.map((snapshot: any) => ({ ...snapshot, scenes: upgradeScenes(snapshot.scenes) })),
+    };
+  },
+  // v3: Scene.characterIds; the cast used to be implied by names in the script and prompt
+  2: (project) => {
+    const upgradeScenes = (scenes: any[] = [], characters: any[] = []) => scenes.map(s => ({
+      ...s,
+      characterIds: findCharactersInText(`${s.script} ${s.visualPrompt}`, characters).map(c => c.id),
+    }));
+    return {
+      ...project,
+      scenes: upgradeScenes(project.scenes, project.characters),
+      snapshots: project.snapshots?.map((snapshot: any) => ({ ...snapshot, scenes: upgradeScenes(snapshot.scenes, snapshot.characters) })),
+    };
+  },
+  // v4: Scene.script went from one string to typed lines; "Name:" prefixes become dialogue speakers
+  3: (project) => {
+    const upgradeScenes = (scenes: any[] = [], characters: any[] = []) => scenes.map(s => ({
+      ...s,
+      script: typeof s.script === 'string' ? parseScriptText(s.script, characters) : s.script,
+    }));
+    return {
+      ...project,
+      scenes: upgradeScenes(project.scenes, project.characters),
+      snapshots: project.snapshots?.map((snapshot: any) => ({ ...snapshot, scenes: upgradeScenes(snapshot.scenes, snapshot.characters) })),
+    };
+  },
+  // v5: Project.style (an AnimationStyle enum value) became Project.styleId, a style preset reference
+  4: ({ style, ...project }) => ({ ...project, styleId: LEGACY_STYLE_IDS[style] || DEFAULT_STYLE_ID }),
+  // v6: Project.updatedAt; older projects count as last changed when they were created
+  5: (project) => ({ ...project, updatedAt: project.updatedAt ?? project.createdAt }),
+};
+
+export const upgradeProject = (project: any): Project => {
+  let version = project.schemaVersion ?? 1;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project "${project.name}" was saved by a newer version of AniScript Studio (schema ${version}).`);
+  }
+  let upgraded = project;
+  while (version < PROJECT_SCHEMA_VERSION) {
+    upgraded = UPGRADES[version](upgraded);
+    version++;
+  }
+  return { ...upgraded, schemaVersion: PROJECT_SCHEMA_VERSION };
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+const lineTypes = new Set<unknown>(SCRIPT_LINE_TYPES.map(t => t.id));
+
+/**
+ * The shape the upgrade steps rely on: scene and character lists of objects (characters named),
+ * in the project and in every snapshot. Check this before `upgradeProject` on data from outside,
+ * then run `validateProject` on the result.
+ */
+export const validateProjectStructure = (project: any): string[] => {
+  if (!isObject(project)) return ['Project data is missing.'];
+  const errors: string[] = [];
+  const checkLists = (owner: any, label: string) => {
+    if (!Array.isArray(owner.characters) || !owner.characters.every((c: any) => isObject(c) && isString(c.name))) {
+      errors.push(`${label} has a malformed characters list.`);
+    }
+    if (!Array.isArray(owner.scenes) || !owner.scenes.every(isObject)) {
+      errors.push(`${label} has a malformed scenes list.`);
+    }
+  };
+  checkLists(project, 'Project');
+  if (project.snapshots !== undefined) {
+    if (!Array.isArray(project.snapshots)) {
+      errors.push('Project versions are not a list.');
+    } else {
+      project.snapshots.forEach((snapshot: any, i: number) => {
+        if (isObject(snapshot)) checkLists(snapshot, `Version ${i + 1}`);
+        else errors.push(`Version ${i + 1} is malformed.`);
+      });
+    }
+  }
+  return errors;
+};
+
+const validateCharacters = (characters: any, label: string, errors: string[]) => {
+  if (!Array.isArray(characters)) {
+    errors.push(`${label} has no characters list.`);
+    return;
+  }
+  characters.forEach((c: any, i: number) => {
+    ['id', 'name', 'description', 'features'].forEach(field => {
+      if (!isString(c?.[field])) errors.push(`${label}: character ${i + 1} is missing "${field}".`);
+    });
+  });
+};
+
+const validateBeats = (beats: any, label: string, errors: string[]) => {
+  if (beats === undefined) return;
+  if (!Array.isArray(beats)) {
+    errors.push(`${label} outline is not a list.`);
+    return;
+  }
+  beats.forEach((b: any, i: number) => {
+    if (!isString(b?.id) || !isString(b?.title) || !isString(b?.summary) || typeof b?.act !== 'number') {
+      errors.push(`${label}: outline beat ${i + 1} is malformed.`);
+    }
+  });
+};
+
+const validateScenes = (scenes: any, label: string, errors: string[]) => {
+  if (!Array.isArray(scenes)) {
+    errors.push(`${label} has no scenes list.`);
+    return;
+  }
+  scenes.forEach((s: any, i: number) => {
+    const scene = `${label}: scene ${i + 1}`;
+    if (!isString(s?.id)) errors.push(`${scene} is missing an id.`);
+    if (typeof s?.sceneNumber !== 'number') errors.push(`${scene} is missing a scene number.`);
+    if (!isString(s?.visualPrompt)) errors.push(`${scene} is missing "visualPrompt".`);
+    if (!Array.isArray(s?.script)) {
+      errors.push(`${scene} is missing "script".`);
+    } else if (!s.script.every((line: any) => isString(line?.id) && isString(line?.text) && lineTypes.has(line?.type) && (line.characterId === undefined || isString(line.characterId)))) {
+      errors.push(`${scene} has a malformed script line.`);
+    }
+    if (typeof s?.duration !== 'number' || !(s.duration > 0)) errors.push(`${scene} has an invalid duration.`);
+    if (!Array.isArray(s?.characterIds) || !s.characterIds.every(isString)) errors.push(`${scene} has an invalid cast list.`);
+  });
+};
+
+/** Returns a list of human-readable problems; empty when the project is well-formed. */
+export const validateProject = (project: any): string[] => {
+  const errors: string[] = [];
+  if (!project || typeof project !== 'object') {
+    return ['Project data is missing.'];
+  }
+
+  if (!isString(project.id) || !project.id) errors.push('Project is missing an id.');
+  if (!isString(project.name)) errors.push('Project is missing a name.');
+  if (!Object.values(VideoType).includes(project.type)) errors.push(`Unknown video type "${project.type}".`);
+  if (!isString(project.styleId) || !project.styleId) errors.push('Project is missing a style.');
+  if (typeof project.createdAt !== 'number') errors.push('Project is missing a creation date.');
+  if (typeof project.updatedAt !== 'number') errors.push('Project is missing a last updated date.');
+  if (!isString(project.storyIdea)) errors.push('Project is missing a story idea.');
+  if (project.tags !== undefined && !(Array.isArray(project.tags) && project.tags.every(isString))) errors.push('Project has invalid tags.');
+  if (project.archived !== undefined && typeof project.archived !== 'boolean') errors.push('Project has an invalid archived flag.');
+  if (project.seriesId !== undefined && !isString(project.seriesId)) errors.push('Project has an invalid series.');
+  if (project.episodeNumber !== undefined && typeof project.episodeNumber !== 'number') errors.push('Project has an invalid episode number.');
+  if (project.summary !== undefined && !isString(project.summary)) errors.push('Project has an invalid episode summary.');
+
+  validateCharacters(project.characters, 'Project', errors);
+  validateBeats(project.beats, 'Project', errors);
+  validateScenes(project.scenes, 'Project', errors);
+
+  // Versions are compared with and restored into the project, so they have to hold up as well
+  if (project.snapshots !== undefined) {
+    if (!Array.isArray(project.snapshots)) {
+      errors.push('Project versions are not a list.');
+    } else {
+      project.snapshots.forEach((snapshot: any, i: number) => {
+        const label = `Version ${i + 1}`;
+        if (!isString(snapshot?.id) || !isString(snapshot?.name) || typeof snapshot?.createdAt !== 'number' || !isString(snapshot?.storyIdea)) {
+          errors.push(`${label} is malformed.`);
+          return;
+        }
+        validateCharacters(snapshot.characters, label, errors);
+        validateBeats(snapshot.beats, label, errors);
+        validateScenes(snapshot.scenes, label, errors);
+      });
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,162 @@
+import { AspectRatio, Character, Scene, StylePreset } from "../types";
+import { isPortrait } from "./framing";
+import { getSpeakerName, isSpokenLine } from "./scriptLines";
+import { describeStyle } from "./stylePresets";
+
+// Renders a scene's generic visual prompt in the syntax of the tool it gets pasted into.
+// The stored prompt is never changed; formatting happens on display and export.
+
+export type PromptTarget = 'generic' | 'midjourney' | 'runway' | 'kling' | 'veo' | 'stable-diffusion';
+
+export interface PromptContext {
+  aspectRatio: AspectRatio;
+  style: StylePreset;
+  characters: Character[]; // The scene's cast
+}
+
+export interface FormattedPrompt {
+  prompt: string;
+  negativePrompt?: string; // For tools with a separate negative prompt field
+  settings?: Record<string, string>; // Values picked in the tool's UI rather than typed into the prompt
+}
+
+export interface PromptFormatter {
+  id: PromptTarget;
+  label: string;
+  format: (scene: Scene, context: PromptContext) => FormattedPrompt;
+}
+
+const PROMPT_TARGET_KEY = 'aniscript_prompt_target';
+
+const NEGATIVE_TERMS = ['text', 'watermark', 'logo', 'subtitles', 'blurry', 'low quality', 'deformed hands', 'extra limbs'];
+
+// SDXL-friendly resolutions for each frame shape
+const SD_RESOLUTIONS: Record<AspectRatio, [number, number]> = {
+  '9:16': [768, 1344],
+  '16:9': [1344, 768],
+  '1:1': [1024, 1024],
+  '4:5': [896, 1120],
+  '21:9': [1536, 640],
+};
+
+const trimPrompt = (prompt: string) => prompt.trim().replace(/[\s.,]+$/, '');
+
+/** Falls back to the closest orientation when a tool doesn't offer the project's ratio. */
+const supportedRatio = (ratio: AspectRatio, supported: AspectRatio[]) =>
+  supported.includes(ratio) ? ratio : isPortrait(ratio) ? '9:16' : '16:9';
+
+/** Video tools only render fixed clip lengths; picks the one nearest to the scene. */
+const clipLength = (duration: number, lengths: number[]) =>
+  lengths.reduce((best, length) => Math.abs(length - duration) < Math.abs(best - duration) ? length : best);
+
+/** The tool's own negative terms followed by the style's. */
+const withStyleNegatives = (terms: string[], style: StylePreset) =>
+  [...terms, style.negativePrompt.trim()].filter(Boolean).join(', ');
+
+const castLine = (characters: Character[]) =>
+  characters.map(c => `${c.name}: ${c.features || c.description}`.trim()).join('; ');
+
+export const PROMPT_FORMATTERS: PromptFormatter[] = [
+  {
+    id: 'generic',
+    label: 'Generic',
+    format: scene => ({ prompt: scene.visualPrompt }),
+  },
+  {
+    id: 'midjourney',
+    label: 'Midjourney',
+    format: (scene, { aspectRatio, style }) => ({
+      prompt: `${trimPrompt(scene.visualPrompt)}, ${describeStyle(style)} --ar ${aspectRatio} --style raw --no ${withStyleNegatives(NEGATIVE_TERMS.slice(0, 4), style)}`,
+    }),
+  },
+  {
+    // Runway reads best as "camera: scene. details", with the motion spelled out
+    id: 'runway',
+    label: 'Runway',
+    format: (scene, { aspectRatio, style }) => ({
+      prompt: `Cinematic shot: ${trimPrompt(scene.visualPrompt)}. ${describeStyle(style)}, smooth natural motion, consistent character design.`,
+      settings: {
+        'Aspect ratio': supportedRatio(aspectRatio, ['16:9', '9:16', '1:1']),
+        'Duration': `${clipLength(scene.duration, [5, 10])}s`,
+      },
+    }),
+  },
+  {
+    id: 'kling',
+    label: 'Kling',
+    format: (scene, { aspectRatio, style, characters }) => ({
+      prompt: [
+        `${trimPrompt(scene.visualPrompt)}.`,
+        characters.length > 0 ? `Characters: ${castLine(characters)}.` : '',
+        `${describeStyle(style)}, fluid motion, stable camera.`,
+      ].filter(Boolean).join(' '),
+      negativePrompt: withStyleNegatives([...NEGATIVE_TERMS, 'flicker', 'morphing'], style),
+      settings: {
+        'Aspect ratio': supportedRatio(aspectRatio, ['16:9', '9:16', '1:1']),
+        'Duration': `${clipLength(scene.duration, [5, 10])}s`,
+      },
+    }),
+  },
+  {
+    // Veo generates audio too, so spoken lines go in as quoted speech with their speaker
+    id: 'veo',
+    label: 'Veo',
+    format: (scene, { aspectRatio, style, characters }) => ({
+      prompt: [
+        `${trimPrompt(scene.visualPrompt)}.`,
+        `Style: ${describeStyle(style)}.`,
+        ...scene.script.filter(line => isSpokenLine(line) && line.text.trim()).map(line =>
+          line.type === 'voiceover'
+            ? `Voiceover: "${line.text.trim()}"`
+            : `${getSpeakerName(line, characters)} says: "${line.text.trim()}"`
+        ),
+      ].filter(Boolean).join(' '),
+      negativePrompt: withStyleNegatives(NEGATIVE_TERMS, style),
+      settings: {
+        'Aspect ratio': supportedRatio(aspectRatio, ['16:9', '9:16']),
+        'Duration': `${clipLength(scene.duration, [4, 6, 8])}s`,
+      },
+    }),
+  },
+  {
+    // Weighted tags: style and cast are emphasised so they survive long prompts
+    id: 'stable-diffusion',
+    label: 'Stable Diffusion',
+    format: (scene, { aspectRatio, style, characters }) => {
+      const [width, height] = SD_RESOLUTIONS[aspectRatio];
+      return {
+        prompt: [
+          style.prompt.trim() && `(${trimPrompt(style.prompt)}:1.3)`,
+          trimPrompt(scene.visualPrompt),
+          [style.palette, style.lighting, style.lens].map(note => note?.trim()).filter(Boolean).join(', '),
+          ...characters.map(c => `(${c.name}, ${trimPrompt(c.features || c.description)}:1.1)`),
+          'masterpiece, best quality, highly detailed',
+        ].filter(Boolean).join(', '),
+        negativePrompt: withStyleNegatives(['(worst quality, low quality:1.4)', ...NEGATIVE_TERMS.filter(t => t !== 'low quality'), 'bad anatomy', 'cropped'], style),
+        settings: { 'Size': `${width}x${height}` },
+      };
+    },
+  },
+];
+
+export const getPromptFormatter = (target: PromptTarget) =>
+  PROMPT_FORMATTERS.find(f => f.id === target) || PROMPT_FORMATTERS[0];
+
+export const formatScenePrompt = (scene: Scene, target: PromptTarget, context: PromptContext): FormattedPrompt =>
+  getPromptFormatter(target).format(scene, context);
+
+/** The formatted prompt as plain text, for copying and for the asset export. */
+export const formattedPromptToText = ({ prompt, negativePrompt, settings }: FormattedPrompt) => [
+  prompt,
+  negativePrompt ? `Negative prompt: ${negativePrompt}` : '',
+  settings ? Object.entries(settings).map(([name, value]) => `${name}: ${value}`).join(', ') : '',
+].filter(Boolean).join('\n');
+
+export const loadPromptTarget = (): PromptTarget => {
+  const stored = localStorage.getItem(PROMPT_TARGET_KEY);
+  return PROMPT_FORMATTERS.some(f => f.id === stored) ? stored as PromptTarget : 'generic';
+};
+
+export const savePromptTarget = (target: PromptTarget) => {
+  localStorage.setItem(PROMPT_TARGET_KEY, target);
+};
@@ -0,0 +1,110 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { AISettings } from "../../types";
+import { parseDataUrl } from "../fileUtils";
+import { AIProvider, ResponseSchema, TextGenerationRequest } from "./types";
+
+const getClient = (settings: AISettings) => {
+  const apiKey = settings.apiKey || process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key not found in environment variables");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Image inputs Gemini accepts; anything else (e.g. SVG placeholders from the mock provider) is skipped
+const INPUT_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const SCHEMA_TYPES: Record<ResponseSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties && Object.fromEntries(
+    Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+  ),
+});
+
+const textConfig = (request: TextGenerationRequest) => ({
+  systemInstruction: request.systemInstruction,
+  ...(request.responseSchema && {
+    responseMimeType: "application/json",
+    responseSchema: toGeminiSchema(request.responseSchema),
+  }),
+});
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModels: {
+    scenes: 'gemini-2.5-flash',
+    idea: 'gemini-2.5-flash',
+    rebalance: 'gemini-2.5-flash',
+    rewrite: 'gemini-2.5-flash',
+    outline: 'gemini-2.5-flash',
+    summary: 'gemini-2.5-flash',
+    // Nano Banana: fast enough for storyboard previews
+    image: 'gemini-2.5-flash-image',
+  },
+
+  generateText: async (request, settings) => {
+    const ai = getClient(settings);
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: request.prompt,
+      config: textConfig(request),
+    });
+    return response.text || "";
+  },
+
+  streamText: async function* (request, settings, signal) {
+    const ai = getClient(settings);
+    const stream = await ai.models.generateContentStream({
+      model: request.model,
+      contents: request.prompt,
+      config: { ...textConfig(request), abortSignal: signal },
+    });
+    for await (const chunk of stream) {
+      if (signal?.aborted) return;
+      yield chunk.text || "";
+    }
+  },
+
+  generateImage: async (request, settings) => {
+    const ai = getClient(settings);
+    const references = (request.referenceImages || [])
+      .map(ref => ({ label: ref.label, image: parseDataUrl(ref.dataUrl) }))
+      .filter(ref => ref.image && INPUT_MIME_TYPES.includes(ref.image.mimeType));
+    const parts = references.length === 0 ? request.prompt : [
+      { text: `${request.prompt}\n\nKeep the characters and style consistent with the reference images that follow, in order: ${references.map(r => r.label).join(', ')}.` },
+      ...references.map(ref => ({ inlineData: { mimeType: ref.image!.mimeType, data: ref.image!.base64 } })),
+    ];
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: parts,
+      config: {
+        imageConfig: {
+          aspectRatio: request.aspectRatio,
+          // Nano Banana doesn't support 'imageSize' config, so we omit it.
+        }
+      }
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+      }
+    }
+
+    throw new Error("No image generated");
+  },
+};
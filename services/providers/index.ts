@@ -0,0 +1,55 @@
+import { AIProviderId, AISettings, AITask } from '../../types';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openAiCompatibleProvider } from './openaiCompatible';
+import { AIProvider } from './types';
+
+export type { AIProvider, ImageGenerationRequest, ResponseSchema, TextGenerationRequest } from './types';
+export { DEFAULT_OPENAI_BASE_URL } from './openaiCompatible';
+
+export const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+  mock: mockProvider,
+};
+
+export const getProvider = (id: AIProviderId): AIProvider => PROVIDERS[id] || geminiProvider;
+
+// --- Global settings (small, so they stay in localStorage) ---
+const SETTINGS_KEY = 'aniscript_ai_settings';
+
+// AI_PROVIDER=mock npm run dev starts the app fully offline
+const envProvider = process.env.AI_PROVIDER as AIProviderId | undefined;
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: envProvider && envProvider in PROVIDERS ? envProvider : 'gemini',
+  models: {},
+};
+
+export const loadAISettings = (): AISettings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  return saved ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(saved) } : DEFAULT_AI_SETTINGS;
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Layers a project's override on top of the global settings.
+ * Switching provider drops the global connection details and models, which belong to the other provider.
+ */
+export const resolveAISettings = (override?: Partial<AISettings>): AISettings => {
+  const global = loadAISettings();
+  if (!override) return global;
+  const sameProvider = !override.provider || override.provider === global.provider;
+  return {
+    provider: override.provider || global.provider,
+    models: { ...(sameProvider ? global.models : {}), ...override.models },
+    baseUrl: override.baseUrl || (sameProvider ? global.baseUrl : undefined),
+    apiKey: override.apiKey || (sameProvider ? global.apiKey : undefined),
+  };
+};
+
+export const resolveModel = (settings: AISettings, task: AITask) =>
+  settings.models[task] || getProvider(settings.provider).defaultModels[task];
@@ -0,0 +1,199 @@
+import { VideoType } from "../../types";
+import { AIProvider, ResponseSchema, TextGenerationRequest, TextTask } from "./types";
+import { DEFAULT_BEAT_TITLES } from "../outline";
+
+// Deterministic offline provider: the same request always yields the same output,
+// so the app can be demoed and exercised without network access or an API key.
+
+const MOCK_LATENCY_MS = 400;
+// Streams are replayed in small chunks so incremental rendering can be seen offline
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_MS = 40;
+
+const SHOTS = ['Wide establishing shot', 'Medium shot', 'Close-up', 'Over-the-shoulder shot', 'Low angle shot'];
+
+const hashString = (value: string) => {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pick = <T>(items: T[], random: () => number) => items[Math.floor(random() * items.length)];
+
+const delay = (ms = MOCK_LATENCY_MS) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toSentences = (text: string) =>
+  text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+
+const fromSchema = (schema: ResponseSchema, key: string, random: () => number, index = 0): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, child]) => [name, fromSchema(child, name, random, index)])
+      );
+    case 'array':
+      return Array.from({ length: 3 }, (_, i) => fromSchema(schema.items!, key, random, i));
+    case 'integer':
+      return index + 1;
+    case 'number':
+      return Math.round(random() * 100) / 10;
+    case 'boolean':
+      return random() > 0.5;
+    default:
+      return schema.enum ? pick(schema.enum, random) : `Mock ${key} ${index + 1}`;
+  }
+};
+
+const FIXTURES: Partial<Record<TextTask, (request: TextGenerationRequest, random: () => number) => unknown>> = {
+  scenes: (request, random) => {
+    // Outline runs ask for one beat at a time
+    const beatText = request.prompt.match(/^Beat to write: .+?: (.*)$/m)?.[1];
+    const beats = toSentences(beatText || request.prompt.replace(/^Story Idea:\s*/, ''));
+    while (beats.length < 4) {
+      beats.push(pick(['The characters react in surprise.', 'A quiet moment passes.', 'Everything changes in an instant.'], random));
+    }
+    // Cast from the "- Name (id: x):" lines of the character context; named characters first, else a random one
+    const cast = [...(request.systemInstruction || '').matchAll(/^\s*- (.+?) \(id: ([^)]+)\):/gm)].map(m => ({ name: m[1], id: m[2] }));
+    return beats.map((beat, i) => {
+      const named = cast.filter(c => beat.toLowerCase().includes(c.name.toLowerCase()));
+      // Beats that name a character become their line; the rest is narrated
+      return {
+        sceneNumber: i + 1,
+        script: [named.length > 0 ? { type: 'dialogue', text: beat, speakerId: named[0].id } : { type: 'voiceover', text: beat }],
+        visualPrompt: `${SHOTS[i % SHOTS.length]} of ${beat.replace(/[.!?]$/, '').toLowerCase()}, soft lighting, detailed background`,
+        duration: 2 + Math.floor(random() * 4),
+        characterIds: (named.length > 0 ? named : cast.length > 0 ? [pick(cast, random)] : []).map(c => c.id),
+      };
+    });
+  },
+
+  // Scales the current durations proportionally to the target runtime
+  rebalance: (request) => {
+    const target = Number(request.prompt.match(/Target runtime: ([\d.]+)s/)?.[1]) || 60;
+    const scenes = [...request.prompt.matchAll(/^Scene (\d+) \(currently ([\d.]+)s\)/gm)]
+      .map(m => ({ sceneNumber: Number(m[1]), duration: Number(m[2]) }));
+    const total = scenes.reduce((sum, s) => sum + s.duration, 0) || 1;
+    return scenes.map(s => ({ sceneNumber: s.sceneNumber, duration: Math.round(s.duration * target / total * 10) / 10 }));
+  },
+
+  outline: (request) => {
+    const idea = request.prompt.replace(/^Story Idea:\s*/, '');
+    const sentences = toSentences(idea);
+    return DEFAULT_BEAT_TITLES.map((title, i) => ({
+      act: i === 0 ? 1 : i < 4 ? 2 : 3,
+      title,
+      summary: sentences[i] || `${title} of the story about ${idea.slice(0, 40)}.`,
+    }));
+  },
+
+  // Echoes the selected scenes back, tagged with the instruction
+  rewrite: (request) => {
+    const instruction = request.prompt.match(/^Instruction: (.*)$/m)?.[1] || 'rewritten';
+    const selected: any[] = JSON.parse(request.prompt.match(/^SCENES TO REWRITE: (.*)$/m)?.[1] || '[]');
+    return selected.map(scene => ({
+      ...scene,
+      script: [...scene.script, { type: 'action', text: instruction }],
+      visualPrompt: `${scene.visualPrompt}, reworked: ${instruction.toLowerCase()}`,
+    }));
+  },
+
+  // Recaps the first lines of the story idea and the scene count
+  summary: (request) => {
+    const idea = request.prompt.match(/^Story Idea: (.*)$/m)?.[1] || '';
+    const sceneCount = [...request.prompt.matchAll(/^Scene \d+:/gm)].length;
+    return { summary: [...toSentences(idea).slice(0, 2), `The episode plays out over ${sceneCount} scenes.`].join(' ') };
+  },
+
+  // Picks the style from the ids the schema allows, like a real model would
+  idea: (request, random) => {
+    const topic = request.prompt.match(/"([^"]+)"/)?.[1] || pick(['Midnight Bakery', 'Robot Pet', 'Haunted Treehouse'], random);
+    return {
+      name: `The ${topic} Adventure`,
+      storyIdea: `Two unlikely friends stumble into a mystery about ${topic.toLowerCase()} and must work together before sunset.`,
+      type: pick(Object.values(VideoType), random),
+      styleId: pick(request.responseSchema?.properties?.styleId?.enum || ['style_disney_pixar'], random),
+      characters: [
+        { id: 'mock_char_1', name: 'Pip', description: 'A curious kid explorer. Small, energetic.', features: 'Yellow raincoat, oversized goggles.' },
+        { id: 'mock_char_2', name: 'Bolt', description: 'A clumsy robot sidekick. Round and shiny.', features: 'Blue metal body, single glowing eye.', personality: 'Loyal and easily startled.' },
+      ],
+    };
+  },
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const toBase64 = (value: string) => {
+  let binary = '';
+  new TextEncoder().encode(value).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline mock (fixtures)',
+  defaultModels: {
+    scenes: 'mock-text',
+    idea: 'mock-text',
+    rebalance: 'mock-text',
+    rewrite: 'mock-text',
+    outline: 'mock-text',
+    summary: 'mock-text',
+    image: 'mock-image',
+  },
+
+  generateText: async (request) => {
+    await delay();
+    const random = createRandom(hashString(`${request.task}:${request.prompt}`));
+    const fixture = FIXTURES[request.task];
+    if (fixture) {
+      return JSON.stringify(fixture(request, random));
+    }
+    return request.responseSchema
+      ? JSON.stringify(fromSchema(request.responseSchema, request.task, random))
+      : `Mock response for: ${request.prompt}`;
+  },
+
+  streamText: async function* (request, settings, signal) {
+    const text = await mockProvider.generateText(request, settings);
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      if (signal?.aborted) return;
+      yield text.slice(i, i + STREAM_CHUNK_SIZE);
+      await delay(STREAM_CHUNK_MS);
+    }
+  },
+
+  generateImage: async (request) => {
+    await delay();
+    const random = createRandom(hashString(request.prompt));
+    const [w, h] = request.aspectRatio.split(':').map(Number);
+    const width = 640;
+    const height = Math.round(width * (h || 9) / (w || 16));
+    const hue = Math.floor(random() * 360);
+    const caption = escapeXml(request.prompt.length > 60 ? `${request.prompt.slice(0, 57)}...` : request.prompt);
+    // Reference images aren't used, just listed so it's visible which characters were passed along
+    const references = (request.referenceImages || []).map(r => r.label).join(', ');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0" stop-color="hsl(${hue},60%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},60%,15%)"/>
+  </linearGradient></defs>
+  <rect width="100%" height="100%" fill="url(#g)"/>
+  <text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="18" text-anchor="middle">${caption}</text>
+  ${references ? `<text x="50%" y="${height - 20}" fill="#fff" fill-opacity="0.7" font-family="sans-serif" font-size="14" text-anchor="middle">Refs: ${escapeXml(references)}</text>` : ''}
+</svg>`;
+    return `data:image/svg+xml;base64,${toBase64(svg)}`;
+  },
+};
@@ -0,0 +1,153 @@
+import { AISettings, AspectRatio } from "../../types";
+import { dataUrlToBlob, parseDataUrl, readFileAsDataUrl } from "../fileUtils";
+import { AIProvider, TextGenerationRequest } from "./types";
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+// The images endpoint takes only a few fixed pixel sizes per model, rather than ratios.
+// The closest one is picked; the prompt's framing hint asks for the actual composition.
+const IMAGE_SIZES: { model: RegExp; sizes: string[] }[] = [
+  { model: /^dall-e-2/, sizes: ['1024x1024'] },
+  { model: /^dall-e-3/, sizes: ['1024x1024', '1792x1024', '1024x1792'] },
+];
+// gpt-image-1 and later; also used for unknown models behind compatible endpoints
+const DEFAULT_IMAGE_SIZES = ['1024x1024', '1536x1024', '1024x1536'];
+
+const toRatio = (value: string, separator: string) => {
+  const [w, h] = value.split(separator).map(Number);
+  return w / h;
+};
+
+const getImageSize = (model: string, aspectRatio: AspectRatio) => {
+  const sizes = IMAGE_SIZES.find(s => s.model.test(model))?.sizes || DEFAULT_IMAGE_SIZES;
+  const target = Math.log(toRatio(aspectRatio, ':'));
+  return sizes.reduce((best, size) =>
+    Math.abs(Math.log(toRatio(size, 'x')) - target) < Math.abs(Math.log(toRatio(best, 'x')) - target) ? size : best
+  );
+};
+
+// Only DALL-E takes `response_format` (and returns URLs without it); gpt-image models reject it and always return base64
+const getResponseFormat = (model: string) => /^dall-e/.test(model) ? { response_format: 'b64_json' } : {};
+
+// Uploads the edits endpoint accepts; anything else (e.g. SVG placeholders from the mock provider) is skipped
+const INPUT_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// JSON bodies are sent as JSON; FormData (for endpoints taking image uploads) as multipart
+const send = async (settings: AISettings, path: string, body: unknown, signal?: AbortSignal) => {
+  const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const isForm = body instanceof FormData;
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      ...(!isForm && { 'Content-Type': 'application/json' }),
+      ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` }),
+    },
+    body: isForm ? body : JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`);
+  }
+  return response;
+};
+
+const post = async (settings: AISettings, path: string, body: unknown) => (await send(settings, path, body)).json();
+
+const chatBody = (request: TextGenerationRequest) => ({
+  model: request.model,
+  messages: [
+    ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+    { role: 'user', content: request.prompt },
+  ],
+  ...(request.responseSchema && {
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: request.task, schema: request.responseSchema, strict: false },
+    },
+  }),
+});
+
+export const openAiCompatibleProvider: AIProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible endpoint',
+  defaultModels: {
+    scenes: 'gpt-4o-mini',
+    idea: 'gpt-4o-mini',
+    rebalance: 'gpt-4o-mini',
+    rewrite: 'gpt-4o-mini',
+    outline: 'gpt-4o-mini',
+    summary: 'gpt-4o-mini',
+    image: 'gpt-image-1',
+  },
+
+  generateText: async (request, settings) => {
+    const data = await post(settings, '/chat/completions', chatBody(request));
+    return data.choices?.[0]?.message?.content || "";
+  },
+
+  // Server-sent events: one `data: {json}` line per delta, ending with `data: [DONE]`
+  streamText: async function* (request, settings, signal) {
+    let response: Response;
+    try {
+      response = await send(settings, '/chat/completions', { ...chatBody(request), stream: true }, signal);
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    }
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let pending = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        pending += value;
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          yield JSON.parse(data).choices?.[0]?.delta?.content || "";
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    } finally {
+      reader.releaseLock();
+    }
+  },
+
+  generateImage: async (request, settings) => {
+    const references = (request.referenceImages || [])
+      .filter(ref => INPUT_MIME_TYPES.includes(parseDataUrl(ref.dataUrl)?.mimeType || ''));
+    let data;
+    if (references.length > 0) {
+      // Reference images go through the edits endpoint, which takes them as uploads
+      const form = new FormData();
+      form.append('model', request.model);
+      form.append('prompt', `${request.prompt}\n\nKeep the characters and style consistent with the reference images, in order: ${references.map(r => r.label).join(', ')}.`);
+      form.append('size', getImageSize(request.model, request.aspectRatio));
+      Object.entries(getResponseFormat(request.model)).forEach(([key, value]) => form.append(key, value));
+      for (const [i, ref] of references.entries()) {
+        form.append('image[]', await dataUrlToBlob(ref.dataUrl), `reference-${i + 1}`);
+      }
+      data = await post(settings, '/images/edits', form);
+    } else {
+      data = await post(settings, '/images/generations', {
+        model: request.model,
+        prompt: request.prompt,
+        size: getImageSize(request.model, request.aspectRatio),
+        ...getResponseFormat(request.model),
+      });
+    }
+    const image = data.data?.[0];
+    if (image?.b64_json) {
+      return `data:image/png;base64,${image.b64_json}`;
+    }
+    // Endpoints that ignore `response_format` may still answer with a (short-lived) URL, so it's fetched right away
+    if (image?.url) {
+      return readFileAsDataUrl(await (await fetch(image.url)).blob());
+    }
+    throw new Error("No image generated");
+  },
+};
@@ -0,0 +1,46 @@
+import { AIProviderId, AISettings, AITask, AspectRatio } from '../../types';
+
+// Minimal JSON-schema subset understood by every provider's structured output mode
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+}
+
+export type TextTask = Exclude<AITask, 'image'>;
+
+export interface TextGenerationRequest {
+  task: TextTask;
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  responseSchema?: ResponseSchema;
+}
+
+export interface ReferenceImage {
+  label: string; // e.g. the character name, so the prompt can point at it
+  dataUrl: string;
+}
+
+export interface ImageGenerationRequest {
+  model: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  // Images the result should stay consistent with; providers without image input ignore them
+  referenceImages?: ReferenceImage[];
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  defaultModels: Record<AITask, string>;
+  // Resolves to the raw response text (JSON when a responseSchema is given)
+  generateText: (request: TextGenerationRequest, settings: AISettings) => Promise<string>;
+  // Same response as generateText, yielded in chunks as it arrives; stops early when the signal aborts
+  streamText: (request: TextGenerationRequest, settings: AISettings, signal?: AbortSignal) => AsyncGenerator<string>;
+  // Resolves to a data URL
+  generateImage: (request: ImageGenerationRequest, settings: AISettings) => Promise<string>;
+}
@@ -0,0 +1,134 @@
+import { Scene, ScriptLine } from "../types";
+
+// Pure helpers for editing a scene list. Every operation returns a new array
+// with sceneNumber renumbered to match the array order.
+
+export const renumberScenes = (scenes: Scene[]): Scene[] =>
+  scenes.map((s, i) => s.sceneNumber === i + 1 ? s : { ...s, sceneNumber: i + 1 });
+
+const roundSeconds = (seconds: number) => Math.round(seconds * 10) / 10;
+
+export const createBlankScene = (beatId?: string): Scene => ({
+  id: crypto.randomUUID(),
+  sceneNumber: 0,
+  script: [],
+  visualPrompt: '',
+  duration: 3,
+  characterIds: [],
+  beatId,
+});
+
+/** Inserts a blank scene so that it ends up at `index`, in the same beat as the scene before it. */
+export const insertBlankScene = (scenes: Scene[], index: number): Scene[] =>
+  renumberScenes([...scenes.slice(0, index), createBlankScene((scenes[index - 1] || scenes[index])?.beatId), ...scenes.slice(index)]);
+
+export const deleteScene = (scenes: Scene[], sceneId: string): Scene[] =>
+  renumberScenes(scenes.filter(s => s.id !== sceneId));
+
+export const duplicateScene = (scenes: Scene[], sceneId: string): Scene[] => {
+  const index = scenes.findIndex(s => s.id === sceneId);
+  if (index === -1) return scenes;
+  const copy: Scene = {
+    ...scenes[index],
+    id: crypto.randomUUID(),
+    script: scenes[index].script.map(line => ({ ...line, id: crypto.randomUUID() })),
+    isGeneratingImage: false,
+  };
+  return renumberScenes([...scenes.slice(0, index + 1), copy, ...scenes.slice(index + 1)]);
+};
+
+export const moveScene = (scenes: Scene[], fromIndex: number, toIndex: number): Scene[] => {
+  if (fromIndex === toIndex) return scenes;
+  const reordered = [...scenes];
+  const [moved] = reordered.splice(fromIndex, 1);
+  reordered.splice(toIndex, 0, moved);
+  return renumberScenes(reordered);
+};
+
+/**
+ * Divides a script in two halves by line; a single line is divided at the sentence boundary
+ * closest to its middle, keeping its type and speaker on both parts.
+ */
+const splitScript = (script: ScriptLine[]): [ScriptLine[], ScriptLine[]] => {
+  if (script.length > 1) {
+    const half = Math.ceil(script.length / 2);
+    return [script.slice(0, half), script.slice(half)];
+  }
+  if (script.length === 0) return [[], []];
+
+  const [line] = script;
+  const sentences = line.text.split(/(?<=[.!?])\s+/).filter(Boolean);
+  if (sentences.length < 2) return [script, []];
+  const half = Math.ceil(sentences.length / 2);
+  return [
+    [{ ...line, text: sentences.slice(0, half).join(' ') }],
+    [{ ...line, id: crypto.randomUUID(), text: sentences.slice(half).join(' ') }],
+  ];
+};
+
+/**
+ * Splits a scene in two: the script is divided near its middle (see splitScript),
+ * the prompt is kept on both halves and the duration is shared between them.
+ * The preview image stays with the first half.
+ */
+export const splitScene = (scenes: Scene[], sceneId: string): Scene[] => {
+  const index = scenes.findIndex(s => s.id === sceneId);
+  if (index === -1) return scenes;
+  const scene = scenes[index];
+
+  const [firstScript, secondScript] = splitScript(scene.script);
+  // The second half takes the remainder, so together they keep the original length exactly
+  const firstDuration = roundSeconds(scene.duration / 2);
+
+  const first: Scene = { ...scene, script: firstScript, duration: firstDuration };
+  const second: Scene = {
+    ...scene,
+    id: crypto.randomUUID(),
+    script: secondScript,
+    duration: scene.duration - firstDuration,
+    generatedImageUrl: undefined,
+    isGeneratingImage: false,
+  };
+  return renumberScenes([...scenes.slice(0, index), first, second, ...scenes.slice(index + 1)]);
+};
+
+/** Merges a scene with the one after it. The first scene's id and preview are kept; the casts are combined. */
+export const mergeWithNext = (scenes: Scene[], sceneId: string): Scene[] => {
+  const index = scenes.findIndex(s => s.id === sceneId);
+  if (index === -1 || index === scenes.length - 1) return scenes;
+  const first = scenes[index];
+  const second = scenes[index + 1];
+
+  const merged: Scene = {
+    ...first,
+    script: [...first.script, ...second.script],
+    visualPrompt: [first.visualPrompt, second.visualPrompt].filter(Boolean).join(' Then: '),
+    duration: roundSeconds(first.duration + second.duration),
+    characterIds: [...new Set([...first.characterIds, ...second.characterIds])],
+  };
+  return renumberScenes([...scenes.slice(0, index), merged, ...scenes.slice(index + 2)]);
+};
+
+/**
+ * Puts each replacement in the place of the scene it was written for: replacements[i] stands in for
+ * the scene with id originalIds[i], wherever that scene is now, and extra replacements follow the last
+ * of them. Replacements whose scene no longer exists are dropped, and so are originals left without one.
+ * A replacement whose prompt is unchanged keeps its original's id and preview; all take its beat.
+ * Returns the same array when none of the originals are left.
+ */
+export const replaceScenesById = (scenes: Scene[], originalIds: string[], replacements: Scene[]): Scene[] => {
+  const remaining = originalIds.filter(id => scenes.some(s => s.id === id));
+  if (remaining.length === 0) return scenes;
+  const lastId = remaining[remaining.length - 1];
+  const standIn = (scene: Scene, original: Scene): Scene => original.visualPrompt === scene.visualPrompt
+    ? { ...scene, beatId: original.beatId, id: original.id, generatedImageUrl: original.generatedImageUrl }
+    : { ...scene, beatId: original.beatId };
+  const extras = replacements.slice(originalIds.length);
+
+  return renumberScenes(scenes.flatMap(scene => {
+    const index = originalIds.indexOf(scene.id);
+    if (index === -1) return [scene];
+    const replaced = replacements[index] ? [standIn(replacements[index], scene)] : [];
+    return scene.id === lastId ? [...replaced, ...extras.map(extra => ({ ...extra, beatId: scene.beatId }))] : replaced;
+  }));
+};
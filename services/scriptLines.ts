@@ -0,0 +1,77 @@
+import { Character, ScriptLine, ScriptLineType } from "../types";
+
+// Helpers for a scene's script, which is a list of typed lines rather than one block of text.
+
+export const SCRIPT_LINE_TYPES: { id: ScriptLineType; label: string }[] = [
+  { id: 'dialogue', label: 'Dialogue' },
+  { id: 'voiceover', label: 'Voiceover' },
+  { id: 'text', label: 'On-screen text' },
+  { id: 'action', label: 'Action' },
+];
+
+export const NARRATOR = 'Narrator';
+
+export const createScriptLine = (type: ScriptLineType, text = '', characterId?: string): ScriptLine => ({
+  id: crypto.randomUUID(),
+  type,
+  text,
+  characterId: type === 'dialogue' ? characterId : undefined,
+});
+
+// "Bella: Hi!" or "Mia (whispering): Look!" — at most three words before the colon
+const SPEAKER_PATTERN = /^\s*([A-Z][\w'.-]*(?: [\w'.-]+){0,2})\s*(?:\([^)]*\))?\s*:\s*(.+)$/;
+const NARRATOR_PATTERN = /^(narrator|voice ?over|v\.?o\.?)$/i;
+const ON_SCREEN_PATTERN = /^(on[- ]screen(?: text)?|text|caption|title)$/i;
+
+/**
+ * Turns a plain-text script (the format before typed lines) into lines. "Name:" prefixes that
+ * match a character become dialogue, bracketed lines become action, and everything else is voiceover.
+ */
+export const parseScriptText = (text: string, characters: Character[]): ScriptLine[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const direction = line.match(/^[[(](.*)[\])]$/);
+    if (direction) return createScriptLine('action', direction[1].trim());
+
+    const match = line.match(SPEAKER_PATTERN);
+    if (match) {
+      const [, name, spoken] = match;
+      if (NARRATOR_PATTERN.test(name)) return createScriptLine('voiceover', spoken.trim());
+      if (ON_SCREEN_PATTERN.test(name)) return createScriptLine('text', spoken.trim());
+      const speaker = characters.find(c => c.name.trim().toLowerCase() === name.toLowerCase());
+      if (speaker) return createScriptLine('dialogue', spoken.trim(), speaker.id);
+    }
+    return createScriptLine('voiceover', line);
+  });
+
+export const isSpokenLine = (line: ScriptLine) => line.type === 'dialogue' || line.type === 'voiceover';
+
+export const hasScript = (script: ScriptLine[]) => script.some(line => line.text.trim());
+
+/** Who says the line: the character's name, the narrator for voiceover, nobody otherwise. */
+export const getSpeakerName = (line: ScriptLine, characters: Character[]) => {
+  if (line.type === 'voiceover') return NARRATOR;
+  if (line.type !== 'dialogue') return undefined;
+  return characters.find(c => c.id === line.characterId)?.name || 'Unknown';
+};
+
+/** One line in screenplay-ish plain text: "Bella: Hi", "Narrator: ...", "[On screen: ...]", "(She runs)". */
+export const formatScriptLine = (line: ScriptLine, characters: Character[]) => {
+  switch (line.type) {
+    case 'text': return `[On screen: ${line.text}]`;
+    case 'action': return `(${line.text})`;
+    default: return `${getSpeakerName(line, characters)}: ${line.text}`;
+  }
+};
+
+export const scriptToText = (script: ScriptLine[], characters: Character[], separator = '\n') =>
+  script.filter(line => line.text.trim()).map(line => formatScriptLine(line, characters)).join(separator);
+
+/** Compares content only; line ids differ between otherwise identical generated scripts. */
+export const isSameScript = (a: ScriptLine[], b: ScriptLine[]) =>
+  a.length === b.length && a.every((line, i) =>
+    line.type === b[i].type && line.text === b[i].text && line.characterId === b[i].characterId
+  );
+
+/** Characters with a dialogue line, in order of first line. */
+export const getScriptSpeakerIds = (script: ScriptLine[]) =>
+  [...new Set(script.filter(line => line.type === 'dialogue' && line.characterId).map(line => line.characterId!))];
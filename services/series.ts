@@ -0,0 +1,63 @@
+import { Project, Series } from "../types";
+import { DEFAULT_STYLE_ID } from "./stylePresets";
+
+// A series groups projects as numbered episodes. The series itself only holds what episodes
+// share; each episode is an ordinary project with `seriesId` and `episodeNumber` set.
+// Projects whose series no longer exists (deleted, or imported from elsewhere) count as standalone.
+
+export const createSeries = (name: string): Series => ({
+  id: crypto.randomUUID(),
+  name,
+  bible: '',
+  styleId: DEFAULT_STYLE_ID,
+  castIds: [],
+  createdAt: Date.now(),
+});
+
+/** The series' episodes in episode order. */
+export const getEpisodes = (projects: Project[], seriesId: string) => projects
+  .filter(p => p.seriesId === seriesId)
+  .sort((a, b) => (a.episodeNumber ?? 0) - (b.episodeNumber ?? 0) || a.createdAt - b.createdAt);
+
+export const nextEpisodeNumber = (projects: Project[], seriesId: string) =>
+  Math.max(0, ...getEpisodes(projects, seriesId).map(p => p.episodeNumber ?? 0)) + 1;
+
+/** Projects that aren't an episode of any existing series. */
+export const getStandaloneProjects = (projects: Project[], series: Series[]) =>
+  projects.filter(p => !p.seriesId || !series.some(s => s.id === p.seriesId));
+
+export const removeFromSeries = ({ seriesId, episodeNumber, ...project }: Project): Project => project;
+
+/**
+ * The episodes with their numbers closed up to 1, 2, 3... in their current order.
+ * Only the episodes whose number changed are returned.
+ */
+export const renumberEpisodes = (episodes: Project[]) => episodes
+  .map((p, i) => p.episodeNumber === i + 1 ? p : { ...p, episodeNumber: i + 1 })
+  .filter((p, i) => p !== episodes[i]);
+
+export interface PriorEpisode {
+  episodeNumber: number;
+  name: string;
+  summary: string;
+}
+
+// What generation is told about the series an episode belongs to
+export interface SeriesContext {
+  name: string;
+  bible: string;
+  priorEpisodes: PriorEpisode[]; // In episode order
+}
+
+/**
+ * The series bible and the recaps of the episodes before `episodeNumber` (all of them when omitted).
+ * Episodes without a summary yet are recapped by their story idea.
+ */
+export const getSeriesContext = (series: Series, projects: Project[], episodeNumber?: number): SeriesContext => ({
+  name: series.name,
+  bible: series.bible,
+  priorEpisodes: getEpisodes(projects, series.id)
+    .filter(p => episodeNumber === undefined || (p.episodeNumber ?? 0) < episodeNumber)
+    .map(p => ({ episodeNumber: p.episodeNumber ?? 0, name: p.name, summary: p.summary || p.storyIdea }))
+    .filter(p => p.summary.trim()),
+});
@@ -0,0 +1,82 @@
+import { Character, Project, ProjectSnapshot, Scene } from "../types";
+import { pruneCast } from "./characters";
+import { renumberScenes } from "./sceneOperations";
+import { isSameScript } from "./scriptLines";
+
+export const DIFF_FIELDS = ['script', 'visualPrompt', 'duration'] as const;
+export type DiffField = typeof DIFF_FIELDS[number];
+
+export type SceneDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SceneDiff {
+  index: number;
+  before?: Scene;
+  after?: Scene;
+  status: SceneDiffStatus;
+  changedFields: DiffField[];
+}
+
+const withoutImages = (scenes: Scene[]): Scene[] =>
+  scenes.map(({ generatedImageUrl, isGeneratingImage, ...scene }) => scene);
+
+export const createSnapshot = (project: Project, name: string): ProjectSnapshot => ({
+  id: crypto.randomUUID(),
+  name,
+  createdAt: Date.now(),
+  storyIdea: project.storyIdea,
+  characters: project.characters.map(({ referenceImageUrl, ...character }) => character),
+  beats: project.beats,
+  scenes: withoutImages(project.scenes),
+});
+
+export const addSnapshot = (project: Project, name: string): Project => ({
+  ...project,
+  snapshots: [...(project.snapshots || []), createSnapshot(project, name)],
+});
+
+/** Puts the snapshot's story, cast, outline and scenes back, keeping current images for scenes and characters that still exist. */
+export const restoreSnapshot = (project: Project, snapshot: ProjectSnapshot): Project => {
+  const images = new Map(project.scenes.map(s => [s.id, s.generatedImageUrl]));
+  const references = new Map(project.characters.map(c => [c.id, c.referenceImageUrl]));
+  return {
+    ...project,
+    storyIdea: snapshot.storyIdea,
+    characters: snapshot.characters.map(c => ({ ...c, referenceImageUrl: references.get(c.id) })),
+    beats: snapshot.beats,
+    scenes: snapshot.scenes.map(s => ({ ...s, generatedImageUrl: images.get(s.id) })),
+  };
+};
+
+/**
+ * Pairs scenes by position, since regenerated storyboards get fresh scene ids.
+ */
+export const diffScenes = (before: Scene[], after: Scene[]): SceneDiff[] =>
+  Array.from({ length: Math.max(before.length, after.length) }, (_, index) => {
+    const a = before[index];
+    const b = after[index];
+    if (!a) return { index, after: b, status: 'added', changedFields: [] };
+    if (!b) return { index, before: a, status: 'removed', changedFields: [] };
+    const changedFields = DIFF_FIELDS.filter(field => field === 'script' ? !isSameScript(a.script, b.script) : a[field] !== b[field]);
+    return { index, before: a, after: b, status: changedFields.length ? 'changed' : 'unchanged', changedFields };
+  });
+
+/**
+ * Copies a scene from an older version into `scenes` at `index`, replacing what is there (or appending).
+ * Cast members and speakers no longer among `characters` are dropped from it.
+ */
+export const cherryPickScene = (scenes: Scene[], scene: Scene, index: number, characters: Character[]): Scene[] => {
+  const replaced = scenes[index];
+  const idTaken = scenes.some((s, i) => i !== index && s.id === scene.id);
+  const [picked] = pruneCast([{
+    ...scene,
+    id: idTaken ? crypto.randomUUID() : scene.id,
+    generatedImageUrl: replaced?.id === scene.id ? replaced.generatedImageUrl : undefined,
+  }], characters);
+  const updated = [...scenes];
+  if (index < scenes.length) {
+    updated[index] = picked;
+  } else {
+    updated.push(picked);
+  }
+  return renumberScenes(updated);
+};
@@ -0,0 +1,290 @@
+import { Character, Project, Series, StylePreset } from "../types";
+import { PROJECT_SCHEMA_VERSION, upgradeProject } from "./projectSchema";
+import { dataUrlToBlob } from "./fileUtils";
+
+// Project metadata and images live in separate IndexedDB stores so a
+// project list can be loaded without pulling every image into memory.
+// In memory, scenes and characters carry their images as data URLs
+// (`generatedImageUrl`, `referenceImageUrl`), which are stripped from the stored metadata.
+// Scene images are keyed by scene id; character ids are only unique within a project,
+// so reference sheets are keyed by project and character id.
+// The style library and cast library each have a store of their own, with the reference image kept as a blob on the record.
+// Series are stored the same way (they have no image).
+
+const DB_NAME = 'aniscript';
+const DB_VERSION = 4;
+const PROJECT_STORE = 'projects';
+const IMAGE_STORE = 'images';
+const STYLE_STORE = 'styles';
+const CAST_STORE = 'cast';
+const SERIES_STORE = 'series';
+const LEGACY_STORAGE_KEY = 'aniscript_projects';
+
+interface ImageRecord {
+  id: string; // Scene id, or characterImageKey() for reference sheets
+  projectId: string;
+  blob: Blob;
+}
+
+type LibraryItem = { id: string; name: string; referenceImageUrl?: string };
+type LibraryRecord<T extends LibraryItem> = Omit<T, 'referenceImageUrl'> & { imageBlob?: Blob };
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+// Last data URL written to (or read from) the image store per scene, so unchanged images are not rewritten
+const persistedImages = new Map<string, string>();
+// Projects whose images are in memory; only these may have orphaned images cleaned up on save
+const hydratedProjects = new Set<string>();
+// The last queued write per project. Writes convert images before opening their transaction, so without
+// the queue an older save could commit after a newer one and bring back its record and orphaned images.
+const projectWrites = new Map<string, Promise<void>>();
+
+/** Runs the write once every earlier write for the same project has finished, failed or not. */
+const queueProjectWrite = (id: string, write: () => Promise<void>) => {
+  const queued = (projectWrites.get(id) || Promise.resolve()).catch(() => {}).then(write);
+  projectWrites.set(id, queued);
+  const forget = () => {
+    if (projectWrites.get(id) === queued) projectWrites.delete(id);
+  };
+  queued.then(forget, forget);
+  return queued;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(STYLE_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(CAST_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore(SERIES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error("Storage transaction aborted"));
+});
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const characterImageKey = (projectId: string, characterId: string) => `character:${projectId}:${characterId}`;
+
+/** Every image the project holds in memory, by image store key. */
+const collectImages = (project: Project) => {
+  const images = new Map<string, string>();
+  project.scenes.forEach(s => s.generatedImageUrl && images.set(s.id, s.generatedImageUrl));
+  project.characters.forEach(c => c.referenceImageUrl && images.set(characterImageKey(project.id, c.id), c.referenceImageUrl));
+  return images;
+};
+
+const toStoredProject = (project: Project): Project => ({
+  ...project,
+  schemaVersion: PROJECT_SCHEMA_VERSION,
+  characters: project.characters.map(({ referenceImageUrl, ...character }) => character),
+  scenes: project.scenes.map(({ generatedImageUrl, isGeneratingImage, ...scene }) => scene),
+});
+
+const migrateLegacyStorage = async () => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+  const legacyProjects: Project[] = JSON.parse(saved);
+  for (const project of legacyProjects) {
+    await saveProject(upgradeProject(project));
+  }
+  // Only drop the old copy once everything is safely in IndexedDB
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+/** Loads project metadata (without images), newest first. Migrates localStorage data on first run. */
+export const loadProjects = async (): Promise<Project[]> => {
+  await migrateLegacyStorage();
+  const db = await openDb();
+  const projects = await promisify<Project[]>(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).getAll());
+  return projects.map(upgradeProject).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/** Fills in the scene previews and character reference sheets stored for the project. */
+export const loadProjectImages = async (project: Project): Promise<Project> => {
+  const db = await openDb();
+  const index = db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).index('projectId');
+  const records = await promisify<ImageRecord[]>(index.getAll(project.id));
+
+  const images = new Map<string, string>();
+  for (const record of records) {
+    const dataUrl = await blobToDataUrl(record.blob);
+    images.set(record.id, dataUrl);
+    persistedImages.set(record.id, dataUrl);
+  }
+  hydratedProjects.add(project.id);
+
+  return {
+    ...project,
+    characters: project.characters.map(c => {
+      const key = characterImageKey(project.id, c.id);
+      return images.has(key) ? { ...c, referenceImageUrl: images.get(key) } : c;
+    }),
+    scenes: project.scenes.map(s => images.has(s.id) ? { ...s, generatedImageUrl: images.get(s.id) } : s),
+  };
+};
+
+export const saveProject = (project: Project): Promise<void> => queueProjectWrite(project.id, async () => {
+  const images = collectImages(project);
+  const changedImages: ImageRecord[] = [];
+  for (const [id, dataUrl] of images) {
+    if (persistedImages.get(id) !== dataUrl) {
+      changedImages.push({ id, projectId: project.id, blob: await dataUrlToBlob(dataUrl) });
+    }
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(PROJECT_STORE).put(toStoredProject(project));
+
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  changedImages.forEach(record => imageStore.put(record));
+
+  if (hydratedProjects.has(project.id)) {
+    const storedIds = await promisify(imageStore.index('projectId').getAllKeys(project.id));
+    storedIds.filter(id => !images.has(id as string)).forEach(id => {
+      imageStore.delete(id);
+      persistedImages.delete(id as string);
+    });
+  }
+
+  await transactionDone(tx);
+  images.forEach((dataUrl, id) => persistedImages.set(id, dataUrl));
+});
+
+/**
+ * Swaps a stored project (and all of its images) for another version with the same id, in one
+ * transaction, so a failed write leaves the original in place. `project` must hold all of its images.
+ */
+export const replaceProject = (project: Project): Promise<void> => queueProjectWrite(project.id, async () => {
+  const images = collectImages(project);
+  const records: ImageRecord[] = [];
+  for (const [id, dataUrl] of images) {
+    records.push({ id, projectId: project.id, blob: await dataUrlToBlob(dataUrl) });
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  const oldIds = await promisify(imageStore.index('projectId').getAllKeys(project.id));
+  oldIds.forEach(id => imageStore.delete(id));
+  tx.objectStore(PROJECT_STORE).put(toStoredProject(project));
+  records.forEach(record => imageStore.put(record));
+  await transactionDone(tx);
+
+  oldIds.forEach(id => persistedImages.delete(id as string));
+  images.forEach((dataUrl, id) => persistedImages.set(id, dataUrl));
+  hydratedProjects.add(project.id);
+});
+
+export const deleteProject = (id: string): Promise<void> => queueProjectWrite(id, async () => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(PROJECT_STORE).delete(id);
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  const imageIds = await promisify(imageStore.index('projectId').getAllKeys(id));
+  imageIds.forEach(imageId => {
+    imageStore.delete(imageId);
+    persistedImages.delete(imageId as string);
+  });
+  await transactionDone(tx);
+  hydratedProjects.delete(id);
+});
+
+// --- Libraries shared by every project ---
+
+const loadLibrary = async <T extends LibraryItem>(storeName: string): Promise<T[]> => {
+  const db = await openDb();
+  const records = await promisify<LibraryRecord<T>[]>(db.transaction(storeName).objectStore(storeName).getAll());
+  const items = await Promise.all(records.map(async ({ imageBlob, ...item }) =>
+    (imageBlob ? { ...item, referenceImageUrl: await blobToDataUrl(imageBlob) } : item) as T
+  ));
+  return items.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const saveToLibrary = async <T extends LibraryItem>(storeName: string, { referenceImageUrl, ...item }: T): Promise<void> => {
+  const record = referenceImageUrl ? { ...item, imageBlob: await dataUrlToBlob(referenceImageUrl) } : item;
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).put(record);
+  await transactionDone(tx);
+};
+
+const deleteFromLibrary = async (storeName: string, id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).delete(id);
+  await transactionDone(tx);
+};
+
+/** The user's style presets by name; built-in presets are not stored. */
+export const loadStylePresets = () => loadLibrary<StylePreset>(STYLE_STORE);
+export const saveStylePreset = (style: StylePreset) => saveToLibrary(STYLE_STORE, style);
+export const deleteStylePreset = (id: string) => deleteFromLibrary(STYLE_STORE, id);
+
+/** The recurring characters of the cast library, by name. */
+export const loadCastLibrary = () => loadLibrary<Character>(CAST_STORE);
+export const saveLibraryCharacter = (character: Character) => saveToLibrary(CAST_STORE, character);
+export const deleteLibraryCharacter = (id: string) => deleteFromLibrary(CAST_STORE, id);
+
+/** Every series, by name. Episodes are ordinary projects pointing at their series. */
+export const loadSeries = () => loadLibrary<Series>(SERIES_STORE);
+export const saveSeries = (series: Series) => saveToLibrary(SERIES_STORE, series);
+export const deleteSeries = (id: string) => deleteFromLibrary(SERIES_STORE, id);
+
+/** Real browser quota usage for this origin, or null where the Storage API is unavailable. */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
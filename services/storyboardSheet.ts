@@ -0,0 +1,139 @@
+import { Character, Project, ScriptLine, StylePreset } from "../types";
+import { formatDuration, totalDuration } from "./durations";
+import { getAspectRatio, isPortrait, toCssAspectRatio } from "./framing";
+import { getSceneCharacters } from "./characters";
+import { getSpeakerName } from "./scriptLines";
+
+// Printable storyboard: a standalone HTML document with a cover page and pages of panels.
+// Images are inlined as data URLs, so the file works offline and prints to PDF from any browser.
+
+export const PANELS_PER_PAGE_OPTIONS = [1, 2, 4, 6, 9];
+
+export interface SheetOptions {
+  panelsPerPage: number;
+  includePrompts: boolean;
+  autoPrint?: boolean; // Opens the print dialog once the images have loaded
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Columns and rows on an A4 portrait page; tall frames sit side by side, wide ones stack. */
+const gridFor = (panelsPerPage: number, portraitFrames: boolean): [number, number] => {
+  switch (panelsPerPage) {
+    case 1: return [1, 1];
+    case 2: return portraitFrames ? [2, 1] : [1, 2];
+    case 4: return [2, 2];
+    case 6: return portraitFrames ? [3, 2] : [2, 3];
+    default: return [3, 3];
+  }
+};
+
+const STYLES = `
+  @page { size: A4 portrait; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111; }
+  .page { height: 273mm; page-break-after: always; display: flex; flex-direction: column; overflow: hidden; }
+  .page:last-child { page-break-after: auto; }
+  .page-header { display: flex; justify-content: space-between; font-size: 9pt; color: #666; border-bottom: 1px solid #ddd; padding-bottom: 2mm; margin-bottom: 4mm; }
+  .grid { flex: 1; display: grid; gap: 5mm; min-height: 0; }
+  .panel { display: flex; flex-direction: column; min-height: 0; overflow: hidden; border: 1px solid #ccc; border-radius: 2mm; padding: 2.5mm; }
+  .frame { position: relative; background: #eee; border-radius: 1mm; overflow: hidden; max-width: 100%; max-height: 60%; align-self: center; }
+  .frame img { width: 100%; height: 100%; object-fit: cover; display: block; }
+  .frame .empty { position: absolute; inset: 0; display: flex; align-items: center; justify-content: center; color: #999; font-size: 9pt; }
+  .panel-meta { display: flex; justify-content: space-between; font-size: 9pt; font-weight: 700; margin-top: 2mm; }
+  .panel-meta span:last-child { font-weight: 400; color: #666; }
+  .text { font-size: 8.5pt; line-height: 1.35; margin-top: 1.5mm; overflow: hidden; }
+  .line-action { font-style: italic; color: #555; }
+  .line-text { color: #555; }
+  .prompt { color: #555; }
+  .label { font-weight: 700; font-style: normal; color: #333; }
+  .cover h1 { font-size: 28pt; margin: 30mm 0 4mm; }
+  .cover .facts { font-size: 11pt; color: #444; line-height: 1.7; }
+  .cover .idea { font-size: 11pt; line-height: 1.5; margin: 8mm 0; white-space: pre-wrap; }
+  .cover h2 { font-size: 13pt; border-bottom: 1px solid #ddd; padding-bottom: 2mm; }
+  .character { display: flex; gap: 4mm; margin-bottom: 4mm; font-size: 10pt; line-height: 1.4; }
+  .character img { width: 40mm; border-radius: 1mm; object-fit: cover; }
+  @media screen { body { background: #888; } .page { background: #fff; width: 210mm; margin: 10mm auto; padding: 12mm; height: 297mm; } }
+`;
+
+const renderScript = (script: ScriptLine[], characters: Character[]) => script.filter(line => line.text.trim()).map(line => {
+  switch (line.type) {
+    case 'action': return `<div class="line-action">${escapeHtml(line.text)}</div>`;
+    case 'text': return `<div class="line-text"><span class="label">On screen:</span> ${escapeHtml(line.text)}</div>`;
+    default: return `<div><span class="label">${escapeHtml(getSpeakerName(line, characters)!.toUpperCase())}:</span> ${escapeHtml(line.text)}</div>`;
+  }
+}).join('');
+
+const renderCover = (project: Project, style: StylePreset) => {
+  const characters = project.characters.map(c => `
+    <div class="character">
+      ${c.referenceImageUrl ? `<img src="${c.referenceImageUrl}" alt="">` : ''}
+      <div>
+        <strong>${escapeHtml(c.name)}</strong><br>
+        ${escapeHtml(c.description)}<br>
+        <span style="color:#555">${escapeHtml(c.features)}</span>
+        ${c.personality ? `<br><span style="color:#555">${escapeHtml(c.personality)}</span>` : ''}
+      </div>
+    </div>`).join('');
+
+  return `
+    <section class="page cover">
+      <h1>${escapeHtml(project.name)}</h1>
+      <div class="facts">
+        Style: ${escapeHtml(style.name)}<br>
+        Type: ${escapeHtml(project.type)} · ${getAspectRatio(project)}<br>
+        ${project.scenes.length} scenes · ${formatDuration(totalDuration(project.scenes))}<br>
+        Exported ${new Date().toLocaleDateString()}
+      </div>
+      ${project.storyIdea ? `<div class="idea">${escapeHtml(project.storyIdea)}</div>` : ''}
+      ${characters ? `<h2>Characters</h2>${characters}` : ''}
+    </section>`;
+};
+
+export const buildStoryboardSheet = (project: Project, style: StylePreset, options: SheetOptions): string => {
+  const aspectRatio = getAspectRatio(project);
+  const [columns, rows] = gridFor(options.panelsPerPage, isPortrait(aspectRatio));
+  const perPage = columns * rows;
+  const pageCount = Math.ceil(project.scenes.length / perPage);
+
+  const pages = Array.from({ length: pageCount }, (_, pageIndex) => {
+    const panels = project.scenes.slice(pageIndex * perPage, (pageIndex + 1) * perPage).map(scene => {
+      const cast = getSceneCharacters(scene, project.characters).map(c => c.name).join(', ');
+      return `
+        <div class="panel">
+          <div class="frame" style="aspect-ratio: ${toCssAspectRatio(aspectRatio)}; ${isPortrait(aspectRatio) ? 'height: 60%' : 'width: 100%'}">
+            ${scene.generatedImageUrl ? `<img src="${scene.generatedImageUrl}" alt="">` : '<div class="empty">No preview</div>'}
+          </div>
+          <div class="panel-meta"><span>Scene ${scene.sceneNumber}</span><span>${formatDuration(scene.duration)}</span></div>
+          ${cast ? `<div class="text"><span class="label">Cast:</span> ${escapeHtml(cast)}</div>` : ''}
+          <div class="text">${renderScript(scene.script, project.characters) || '&nbsp;'}</div>
+          ${options.includePrompts && scene.visualPrompt ? `<div class="text prompt"><span class="label">Prompt:</span> ${escapeHtml(scene.visualPrompt)}</div>` : ''}
+        </div>`;
+    }).join('');
+
+    return `
+      <section class="page">
+        <div class="page-header"><span>${escapeHtml(project.name)}</span><span>Page ${pageIndex + 1} of ${pageCount}</span></div>
+        <div class="grid" style="grid-template-columns: repeat(${columns}, 1fr); grid-template-rows: repeat(${rows}, 1fr);">${panels}</div>
+      </section>`;
+  }).join('');
+
+  const printScript = options.autoPrint
+    ? `<script>window.addEventListener('load', () => setTimeout(() => window.print(), 200));</script>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(project.name)} – Storyboard</title>
+<style>${STYLES}</style>
+${printScript}
+</head>
+<body>
+${renderCover(project, style)}
+${pages}
+</body>
+</html>`;
+};
@@ -0,0 +1,60 @@
+// Incremental parser for a streamed JSON array of objects. Each object is handed out as
+// soon as its closing brace arrives, so a stream cut mid-object loses only that object.
+
+/**
+ * Returns a `push` function: feed it text chunks in order and it returns the objects of the
+ * top-level array completed by that chunk. Anything before the opening `[`
+ * (such as a markdown code fence) is skipped.
+ */
+export const createJsonArrayStreamParser = <T = unknown>() => {
+  let buffer = '';
+  let position = 0;
+  let depth = 0; // 1 = inside the top-level array
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  return (chunk: string): T[] => {
+    buffer += chunk;
+    const completed: T[] = [];
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (depth === 0) {
+        if (char === '[') depth = 1;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 1) objectStart = position;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 1 && objectStart !== -1) {
+          try {
+            completed.push(JSON.parse(buffer.slice(objectStart, position + 1)));
+          } catch {
+            // Malformed element; skip it and keep reading the rest of the array
+          }
+          objectStart = -1;
+        }
+      }
+    }
+
+    // Drop consumed text so long streams don't keep the whole response around
+    const keepFrom = objectStart === -1 ? position : objectStart;
+    buffer = buffer.slice(keepFrom);
+    position -= keepFrom;
+    if (objectStart !== -1) objectStart = 0;
+
+    return completed;
+  };
+};
@@ -0,0 +1,162 @@
+import { StylePreset } from "../types";
+
+// The style library: built-in presets plus the user's own, which live in IndexedDB (see storageService).
+// Projects keep only the preset id, so editing a preset restyles every project that uses it.
+
+export const DEFAULT_STYLE_ID = 'style_disney_pixar';
+
+const STYLES_FORMAT = 'aniscript-styles';
+
+export const BUILT_IN_STYLES: StylePreset[] = [
+  {
+    id: 'style_disney_pixar',
+    name: 'Disney/Pixar 3D Style',
+    prompt: 'Disney/Pixar style 3D animation, stylized characters with big expressive eyes, soft rounded shapes, polished render',
+    negativePrompt: 'photorealistic, live action, flat 2D shading, uncanny faces',
+    palette: 'Warm, saturated colors',
+    lighting: 'Soft global illumination with a warm rim light',
+    lens: '35mm, shallow depth of field',
+    builtIn: true,
+  },
+  {
+    id: 'style_anime_shinkai',
+    name: 'Anime Makoto Shinkai Style',
+    prompt: 'Makoto Shinkai style anime, detailed painted backgrounds, clean cel-shaded characters, dramatic skies',
+    negativePrompt: '3D render, photorealistic, chibi proportions, muddy colors',
+    palette: 'Vivid blues and sunset oranges, glowing highlights',
+    lighting: 'Golden hour light, lens flares and light rays',
+    lens: 'Wide establishing shots, 24mm',
+    builtIn: true,
+  },
+  {
+    id: 'style_cinematic_realistic',
+    name: 'Cinematic Realistic',
+    prompt: 'Cinematic realistic film still, photographic detail, natural skin and textures, film grain',
+    negativePrompt: 'cartoon, anime, illustration, 3D render, plastic skin',
+    palette: 'Teal and orange color grade',
+    lighting: 'Motivated practical lighting, soft contrast',
+    lens: 'Anamorphic 50mm, shallow depth of field',
+    builtIn: true,
+  },
+  {
+    id: 'style_hand_drawn_sketchy',
+    name: 'Hand-drawn Sketchy',
+    prompt: 'Hand-drawn sketchy animation, loose pencil and ink linework, visible construction lines, watercolor washes',
+    negativePrompt: '3D render, photorealistic, clean vector art, glossy shading',
+    palette: 'Muted pastels on off-white paper',
+    lighting: 'Flat, even lighting with simple hatched shadows',
+    builtIn: true,
+  },
+  {
+    id: 'style_claymation',
+    name: 'Claymation / Stop Motion',
+    prompt: 'Claymation stop-motion, handcrafted plasticine characters with fingerprints and tool marks, miniature practical sets',
+    negativePrompt: 'smooth CG surfaces, photorealistic people, 2D animation',
+    palette: 'Bright, chunky primary colors',
+    lighting: 'Small-scale studio lighting with soft shadows',
+    lens: 'Macro lens, tilt-shift miniature look',
+    builtIn: true,
+  },
+  {
+    id: 'style_cyberpunk',
+    name: 'Cyberpunk / Sci-Fi 3D',
+    prompt: 'Cyberpunk sci-fi 3D render, dense futuristic city, holograms, chrome and neon signage, rain-slick streets',
+    negativePrompt: 'daylight countryside, medieval, flat 2D shading',
+    palette: 'Neon magenta and cyan against deep blacks',
+    lighting: 'Neon glow, volumetric fog, hard reflections',
+    lens: 'Wide 24mm, low angles',
+    builtIn: true,
+  },
+];
+
+// Schema v5 replaced the old AnimationStyle enum values with preset ids
+export const LEGACY_STYLE_IDS: Record<string, string> = {
+  'Disney/Pixar 3D Style': 'style_disney_pixar',
+  'Anime Makoto Shinkai Style': 'style_anime_shinkai',
+  'Cinematic Realistic': 'style_cinematic_realistic',
+  'Hand-drawn Sketchy': 'style_hand_drawn_sketchy',
+  'Claymation / Stop Motion': 'style_claymation',
+  'Cyberpunk / Sci-Fi 3D': 'style_cyberpunk',
+};
+
+/** The preset with the id, or the default one when it was deleted or never existed here. */
+export const getStylePreset = (styles: StylePreset[], id: string | undefined) =>
+  styles.find(s => s.id === id) || BUILT_IN_STYLES.find(s => s.id === DEFAULT_STYLE_ID)!;
+
+/** The style's look as one prompt fragment: the positive prompt plus palette, lighting and lens notes. */
+export const describeStyle = (style: StylePreset) => [
+  style.prompt.trim(),
+  style.palette?.trim() && `palette: ${style.palette.trim()}`,
+  style.lighting?.trim() && `lighting: ${style.lighting.trim()}`,
+  style.lens?.trim() && `lens: ${style.lens.trim()}`,
+].filter(Boolean).join('; ');
+
+export const createStylePreset = (): StylePreset => ({
+  id: crypto.randomUUID(),
+  name: 'New Style',
+  prompt: '',
+  negativePrompt: '',
+});
+
+/** An editable copy; built-in presets are customised this way. */
+export const duplicateStylePreset = (style: StylePreset): StylePreset => ({
+  ...style,
+  id: crypto.randomUUID(),
+  name: `${style.name} (copy)`,
+  builtIn: undefined,
+});
+
+export const exportStylePresets = (styles: StylePreset[]) =>
+  JSON.stringify({ format: STYLES_FORMAT, styles: styles.map(({ builtIn, ...style }) => style) }, null, 2);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+/** Returns a list of human-readable problems; empty when the preset is well-formed. */
+export const validateStylePreset = (style: any, label: string): string[] => {
+  if (!style || typeof style !== 'object') return [`${label} is not an object.`];
+  const errors: string[] = [];
+  if (typeof style.name !== 'string' || !style.name.trim()) errors.push(`${label} is missing a name.`);
+  if (typeof style.prompt !== 'string') errors.push(`${label} is missing "prompt".`);
+  if (!isOptionalString(style.negativePrompt)) errors.push(`${label} has an invalid "negativePrompt".`);
+  ['palette', 'lighting', 'lens'].forEach(field => {
+    if (!isOptionalString(style[field])) errors.push(`${label} has an invalid "${field}".`);
+  });
+  if (style.referenceImageUrl !== undefined && !(typeof style.referenceImageUrl === 'string' && style.referenceImageUrl.startsWith('data:image/'))) {
+    errors.push(`${label} has a reference image that is not an embedded image.`);
+  }
+  return errors;
+};
+
+/**
+ * Reads presets exported by exportStylePresets. Throws with a readable message when the file is not usable.
+ * Ids are kept, so re-importing a shared preset updates it and projects using it find it again,
+ * except where they would clash with a built-in preset.
+ */
+export const parseStylePresets = (json: string): StylePreset[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (parsed?.format !== STYLES_FORMAT || !Array.isArray(parsed.styles)) {
+    throw new Error("This file is not an AniScript style library export.");
+  }
+
+  const errors = parsed.styles.flatMap((style: any, i: number) => validateStylePreset(style, `Style ${i + 1}`));
+  if (errors.length > 0) {
+    throw new Error(`The style library is invalid:\n- ${errors.join('\n- ')}`);
+  }
+
+  const builtInIds = new Set(BUILT_IN_STYLES.map(s => s.id));
+  return parsed.styles.map((style: any): StylePreset => ({
+    id: typeof style.id === 'string' && style.id && !builtInIds.has(style.id) ? style.id : crypto.randomUUID(),
+    name: style.name.trim(),
+    prompt: style.prompt,
+    negativePrompt: style.negativePrompt || '',
+    palette: style.palette || undefined,
+    lighting: style.lighting || undefined,
+    lens: style.lens || undefined,
+    referenceImageUrl: style.referenceImageUrl,
+  }));
+};
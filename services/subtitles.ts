@@ -0,0 +1,109 @@
+import { Character, Scene } from "../types";
+import { getSpeakerName, isSpokenLine } from "./scriptLines";
+
+// Subtitle tracks built from the spoken lines of scene scripts (dialogue and voiceover). Each scene's
+// text is timed within the scene's slot on the cumulative timeline and split into caption-sized cues.
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleOptions {
+  speakerLabels: boolean; // "Name:" prefixes (SRT) or voice tags (WebVTT)
+  maxLineLength: number;
+  maxLinesPerCue: number;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  speakerLabels: false,
+  maxLineLength: 42,
+  maxLinesPerCue: 2,
+};
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  speaker?: string;
+  lines: string[];
+}
+
+/** Greedy word wrap; a single word longer than the limit gets a line of its own. */
+export const wrapText = (text: string, maxLineLength: number) => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    if (current && current.length + 1 + word.length > maxLineLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+export const buildSubtitleCues = (scenes: Scene[], characters: Character[], options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let sceneStart = 0;
+
+  scenes.forEach(scene => {
+    const chunks = scene.script.filter(isSpokenLine).flatMap(line => {
+      const lines = wrapText(line.text, options.maxLineLength);
+      return Array.from({ length: Math.ceil(lines.length / options.maxLinesPerCue) }, (_, i) => ({
+        speaker: getSpeakerName(line, characters),
+        isFirst: i === 0,
+        lines: lines.slice(i * options.maxLinesPerCue, (i + 1) * options.maxLinesPerCue),
+      }));
+    });
+
+    // Each cue gets a share of the scene proportional to how much text it carries
+    const totalLength = chunks.reduce((sum, c) => sum + c.lines.join(' ').length, 0);
+    let cueStart = sceneStart;
+    chunks.forEach((chunk, i) => {
+      const end = i === chunks.length - 1
+        ? sceneStart + scene.duration
+        : cueStart + scene.duration * chunk.lines.join(' ').length / totalLength;
+      const lines = options.speakerLabels && chunk.speaker && chunk.isFirst
+        ? [`${chunk.speaker}: ${chunk.lines[0]}`, ...chunk.lines.slice(1)]
+        : chunk.lines;
+      cues.push({ start: cueStart, end, speaker: chunk.speaker, lines });
+      cueStart = end;
+    });
+
+    sceneStart += scene.duration;
+  });
+
+  return cues;
+};
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const toSrt = (cues: SubtitleCue[]) =>
+  cues.map((cue, i) =>
+    `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`
+  ).join('\n');
+
+// WebVTT cue text is markup, so these would otherwise start tags or entities
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** WebVTT carries the speaker as a voice tag instead of a text prefix. */
+export const toVtt = (cues: SubtitleCue[], speakerLabels: boolean) => {
+  const body = cues.map(cue => {
+    const text = cue.lines.map(escapeVtt);
+    const lines = speakerLabels && cue.speaker
+      ? [`<v ${escapeVtt(cue.speaker)}>${text[0]}`, ...text.slice(1)]
+      : text;
+    return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${lines.join('\n')}\n`;
+  });
+  return ['WEBVTT\n', ...body].join('\n');
+};
+
+export const buildSubtitles = (scenes: Scene[], characters: Character[], format: SubtitleFormat, options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS) => {
+  if (format === 'srt') return toSrt(buildSubtitleCues(scenes, characters, options));
+  // The voice tag replaces the text prefix, so cues are built without it
+  return toVtt(buildSubtitleCues(scenes, characters, { ...options, speakerLabels: false }), options.speakerLabels);
+};
@@ -0,0 +1,199 @@
+import { AspectRatio, Project, Scene, VideoType } from "../types";
+import { getAspectRatio } from "./framing";
+import { sceneImageFileName } from "./fileUtils";
+import { getSpeakerName, hasScript, scriptToText } from "./scriptLines";
+
+// Edit timelines for NLEs: one still clip per scene, named after the scene, pointing at the preview
+// file from the asset zip and carrying the script as a marker.
+
+export type TimelineFormat = 'edl' | 'fcpxml' | 'otio';
+
+export const TIMELINE_FORMATS: { id: TimelineFormat; label: string; extension: string }[] = [
+  { id: 'edl', label: 'CMX3600 EDL', extension: 'edl' },
+  { id: 'fcpxml', label: 'Final Cut Pro XML', extension: 'fcpxml' },
+  { id: 'otio', label: 'OpenTimelineIO', extension: 'otio' },
+];
+
+const FRAME_RATES: Record<VideoType, number> = {
+  [VideoType.SHORT]: 30,
+  [VideoType.LONG]: 24,
+};
+
+// 1080 on the short side
+const RESOLUTIONS: Record<AspectRatio, [number, number]> = {
+  '9:16': [1080, 1920],
+  '16:9': [1920, 1080],
+  '1:1': [1080, 1080],
+  '4:5': [1080, 1350],
+  '21:9': [2520, 1080],
+};
+
+interface TimelineClip {
+  scene: Scene;
+  name: string;
+  note: string; // The script on one line; empty without one
+  fileName: string;
+  hasMedia: boolean;
+  startFrame: number;
+  frames: number;
+}
+
+export const getTimelineSettings = (project: Project) => {
+  const [width, height] = RESOLUTIONS[getAspectRatio(project)];
+  return { fps: FRAME_RATES[project.type], width, height };
+};
+
+const singleLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/** Clips on whole frames; starts come from the cumulative time so rounding doesn't drift. */
+const toClips = (project: Project, fps: number): TimelineClip[] => {
+  let elapsed = 0;
+  return project.scenes.map(scene => {
+    const startFrame = Math.round(elapsed * fps);
+    elapsed += scene.duration;
+    return {
+      scene,
+      name: `Scene ${scene.sceneNumber}`,
+      note: hasScript(scene.script) ? singleLine(scriptToText(scene.script, project.characters, ' / ')) : '',
+      fileName: sceneImageFileName(scene),
+      hasMedia: !!scene.generatedImageUrl,
+      startFrame,
+      frames: Math.max(1, Math.round(elapsed * fps) - startFrame),
+    };
+  });
+};
+
+const toTimecode = (frame: number, fps: number) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const seconds = Math.floor(frame / fps);
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}:${pad(frame % fps)}`;
+};
+
+const toEdl = (project: Project, clips: TimelineClip[], fps: number) => {
+  const recordStart = 3600 * fps; // Record timecode starts at 01:00:00:00 by convention
+  const events = clips.map((clip, i) => {
+    const number = String(i + 1).padStart(3, '0');
+    const sourceIn = toTimecode(0, fps);
+    const sourceOut = toTimecode(clip.frames, fps);
+    const recordIn = toTimecode(recordStart + clip.startFrame, fps);
+    const recordOut = toTimecode(recordStart + clip.startFrame + clip.frames, fps);
+    return [
+      `${number}  AX       V     C        ${sourceIn} ${sourceOut} ${recordIn} ${recordOut}`,
+      `* FROM CLIP NAME: ${clip.name}`,
+      `* SOURCE FILE: ${clip.fileName}`,
+      clip.note ? `* COMMENT: ${clip.note}` : '',
+    ].filter(Boolean).join('\n');
+  });
+  return `TITLE: ${singleLine(project.name)}\nFCM: NON-DROP FRAME\n\n${events.join('\n\n')}\n`;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toFcpxml = (project: Project, clips: TimelineClip[], fps: number, width: number, height: number) => {
+  const time = (frames: number) => `${frames}/${fps}s`;
+  const totalFrames = clips.reduce((sum, c) => Math.max(sum, c.startFrame + c.frames), 0);
+  // FCPXML 1.9 points at media through a file URL; a relative one resolves next to the .fcpxml
+  const assets = clips.map((clip, i) =>
+    `    <asset id="a${i + 1}" name="${escapeXml(clip.name)}" start="0s" duration="${time(clip.frames)}" hasVideo="1" format="r1">
+      <media-rep kind="original-media" src="${escapeXml(`file:./${encodeURI(clip.fileName)}`)}"/>
+    </asset>`
+  ).join('\n');
+  const spine = clips.map((clip, i) => {
+    const marker = clip.note
+      ? `\n              <marker start="0s" duration="${time(1)}" value="${escapeXml(clip.note)}"/>`
+      : '';
+    return `            <video name="${escapeXml(clip.name)}" ref="a${i + 1}" offset="${time(clip.startFrame)}" duration="${time(clip.frames)}" start="0s">${marker}
+            </video>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1" frameDuration="${time(1)}" width="${width}" height="${height}"/>
+${assets}
+  </resources>
+  <library>
+    <event name="${escapeXml(project.name)}">
+      <project name="${escapeXml(project.name)}">
+        <sequence format="r1" duration="${time(totalFrames)}" tcStart="0s" tcFormat="NDF">
+          <spine>
+${spine}
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+};
+
+const rationalTime = (frames: number, fps: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate: fps, value: frames });
+const timeRange = (start: number, duration: number, fps: number) => ({
+  OTIO_SCHEMA: 'TimeRange.1',
+  start_time: rationalTime(start, fps),
+  duration: rationalTime(duration, fps),
+});
+
+const toOtio = (project: Project, clips: TimelineClip[], fps: number, width: number, height: number) => {
+  const children = clips.map(clip => ({
+    OTIO_SCHEMA: 'Clip.1',
+    name: clip.name,
+    source_range: timeRange(0, clip.frames, fps),
+    media_reference: clip.hasMedia
+      ? { OTIO_SCHEMA: 'ExternalReference.1', name: clip.fileName, target_url: clip.fileName, available_range: null, metadata: {} }
+      : { OTIO_SCHEMA: 'MissingReference.1', name: clip.fileName, available_range: null, metadata: {} },
+    effects: [],
+    markers: clip.note ? [{
+      OTIO_SCHEMA: 'Marker.1',
+      name: clip.note,
+      color: 'YELLOW',
+      marked_range: timeRange(0, 0, fps),
+      metadata: {},
+    }] : [],
+    metadata: {
+      aniscript: {
+        sceneNumber: clip.scene.sceneNumber,
+        script: clip.scene.script.map(line => ({ type: line.type, speaker: getSpeakerName(line, project.characters), text: line.text })),
+        visualPrompt: clip.scene.visualPrompt,
+      },
+    },
+  }));
+
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: project.name,
+    global_start_time: null,
+    metadata: { aniscript: { width, height, fps } },
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers: [],
+      metadata: {},
+      children: [{
+        OTIO_SCHEMA: 'Track.1',
+        name: 'Storyboard',
+        kind: 'Video',
+        source_range: null,
+        effects: [],
+        markers: [],
+        metadata: {},
+        children,
+      }],
+    },
+  };
+  return JSON.stringify(timeline, null, 2);
+};
+
+export const buildTimeline = (project: Project, format: TimelineFormat) => {
+  const { fps, width, height } = getTimelineSettings(project);
+  const clips = toClips(project, fps);
+  switch (format) {
+    case 'edl': return toEdl(project, clips, fps);
+    case 'fcpxml': return toFcpxml(project, clips, fps, width, height);
+    case 'otio': return toOtio(project, clips, fps, width, height);
+  }
+};
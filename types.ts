@@ -3,13 +3,31 @@ export enum VideoType {
   LONG = 'YouTube Long (Horizontal 16:9)',
 }
 
-export enum AnimationStyle {
-  DISNEY_PIXAR = 'Disney/Pixar 3D Style',
-  ANIME_SHINKAI = 'Anime Makoto Shinkai Style',
-  CINEMATIC_REALISTIC = 'Cinematic Realistic',
-  HAND_DRAWN_SKETCHY = 'Hand-drawn Sketchy',
-  CLAYMATION = 'Claymation / Stop Motion',
-  CYBERPUNK = 'Cyberpunk / Sci-Fi 3D'
+export type AspectRatio = '9:16' | '16:9' | '1:1' | '4:5' | '21:9';
+
+// A reusable art direction. Projects reference one by id; see services/stylePresets.ts for the built-in ones.
+export interface StylePreset {
+  id: string;
+  name: string;
+  prompt: string; // Positive prompt fragment describing the look
+  negativePrompt: string; // What the style should avoid; empty for none
+  palette?: string;
+  lighting?: string;
+  lens?: string; // Lens and camera notes
+  referenceImageUrl?: string; // Sent along with preview prompts, like character reference sheets
+  builtIn?: boolean; // Ships with the app and can't be edited or deleted
+}
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Each task can run on its own model (e.g. a cheap text model for ideas, a dedicated image model for previews)
+export type AITask = 'scenes' | 'idea' | 'image' | 'rebalance' | 'rewrite' | 'outline' | 'summary';
+
+export interface AISettings {
+  provider: AIProviderId;
+  models: Partial<Record<AITask, string>>; // Empty entries fall back to the provider defaults
+  baseUrl?: string; // Only used by the OpenAI-compatible provider
+  apiKey?: string; // Overrides the key baked in from the environment
 }
 
 export interface Character {
@@ -18,34 +36,91 @@ export interface Character {
   description: string;
   features: string;
   personality?: string;
+  referenceImageUrl?: string; // Reference/turnaround sheet sent along with preview prompts
+  libraryId?: string; // Cast library entry this character is a copy of; see services/castLibrary.ts
+}
+
+// Spoken by a character, narrated, shown as on-screen text, or a stage direction
+export type ScriptLineType = 'dialogue' | 'voiceover' | 'text' | 'action';
+
+export interface ScriptLine {
+  id: string;
+  type: ScriptLineType;
+  text: string;
+  characterId?: string; // Speaker of a dialogue line
 }
 
 export interface Scene {
   id: string;
   sceneNumber: number;
-  script: string; // Dialogue or Voiceover
+  script: ScriptLine[]; // In the order they happen
   visualPrompt: string; // The prompt for the video generator
-  duration: string;
+  duration: number; // Seconds
+  characterIds: string[]; // Characters appearing in the scene
+  beatId?: string; // Outline beat the scene was written for
   generatedImageUrl?: string; // Preview image
   isGeneratingImage?: boolean;
 }
 
+// One step of the story outline (hook, setup, conflict, ...); scenes are generated per beat
+export interface Beat {
+  id: string;
+  act: number; // 1-based
+  title: string;
+  summary: string;
+}
+
+// A deliberately saved version of a project's story, cast and storyboard.
+// Kept without images; restoring reuses the current image of any scene or character with the same id.
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  storyIdea: string;
+  characters: Character[];
+  beats?: Beat[];
+  scenes: Scene[];
+}
+
 export interface Project {
   id: string;
   name: string;
   type: VideoType;
-  style: AnimationStyle;
+  styleId: string; // StylePreset id; unknown ids fall back to the default style
   createdAt: number;
+  updatedAt: number; // Last change of any kind
   characters: Character[];
   scenes: Scene[];
   storyIdea: string; // The raw input idea
+  beats?: Beat[]; // Optional outline between the idea and the scenes, in story order
+  aspectRatio?: AspectRatio; // Overrides the frame shape implied by the VideoType
+  targetDurationSeconds?: number; // Desired runtime; defaults depend on the VideoType
+  aiSettings?: Partial<AISettings>; // Per-project override of the global AI settings
+  snapshots?: ProjectSnapshot[];
+  tags?: string[]; // Normalized with services/projectList.ts normalizeTag
+  archived?: boolean; // Hidden from the dashboard unless archived projects are shown
+  seriesId?: string; // Series this project is an episode of; see services/series.ts
+  episodeNumber?: number; // 1-based order within the series
+  summary?: string; // "Story so far" recap of the episode, written after its scenes are generated
+  schemaVersion?: number; // Shape version of persisted/exported data, see services/projectSchema.ts
+}
+
+// Episodic projects sharing a cast and style. Each episode is generated with the series bible
+// and the summaries of the episodes before it, so callbacks and running gags carry over.
+export interface Series {
+  id: string;
+  name: string;
+  bible: string; // Premise, world rules, tone and running gags every episode should respect
+  styleId: string; // StylePreset id new episodes start with
+  castIds: string[]; // Cast library entries new episodes start with
+  createdAt: number;
 }
 
 export interface ProjectIdea {
   name: string;
   storyIdea: string;
   type: VideoType;
-  style: AnimationStyle;
+  styleId: string;
   characters: Character[];
 }
 